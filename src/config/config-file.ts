@@ -0,0 +1,258 @@
+/**
+ * Configuration file for Shopify GraphQL MCP
+ *
+ * Settings can live in one file instead of a pile of environment variables.
+ * The server reads the file named by `--config <path>` or SHOPIFY_MCP_CONFIG,
+ * otherwise the first of shopify-mcp.config.json, shopify-mcp.config.yaml and
+ * shopify-mcp.config.yml in the working directory:
+ *
+ *   apiVersion: "2026-01"
+ *   defaultStore: main
+ *   stores:
+ *     main: { accessToken: shpat_..., storeUrl: main.myshopify.com }
+ *   categories: [essential, content]
+ *   disabledTools: ["delete_*"]
+ *   enabledTools: [get_shopify_payments_payouts]
+ *   tools:
+ *     delete_product: { enabled: false }
+ *     get_products: { description: "Search the catalogue" }
+ *     cancel_order: { confirm: false }
+ *   safety: { readOnly: false, dryRun: false, scopeMode: skip }
+ *   cache: { ttlSeconds: 30 }
+ *   logging: { journal: true, journalFiles: 10 }
+ *
+ * The file is validated up front; unknown keys and bad values stop the
+ * server with a list of every problem. Each setting maps onto an environment
+ * variable (see environmentOf), and a variable that is set wins over the file.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { apiVersionSchema, ProfileSettings, storeNameSchema, storeProfileSchema } from './stores.js';
+import { ALL_CATEGORIES } from './tool-categories.js';
+import { DEFAULT_CONFIRM_TOOLS } from '../utils/confirmation.js';
+import { getToolDefinition } from '../utils/scope-mapper.js';
+
+export const CONFIG_FILE_NAMES = ['shopify-mcp.config.json', 'shopify-mcp.config.yaml', 'shopify-mcp.config.yml'];
+
+const positiveInt = z.number().int().positive();
+
+const toolOverrideSchema = z.object({
+  /** false: the tool is not registered; true: registered even when its category is off */
+  enabled: z.boolean().optional(),
+  /** Replaces the tool's description */
+  description: z.string().min(1).optional(),
+  /** Require (true) or skip (false) confirmation, on top of safety.confirmTools */
+  confirm: z.boolean().optional(),
+}).strict();
+
+const categoryNames = ALL_CATEGORIES.map(category => category.name) as [string, ...string[]];
+
+export const configFileSchema = z.object({
+  apiVersion: apiVersionSchema.optional(),
+  defaultStore: storeNameSchema.optional(),
+  stores: z.record(storeNameSchema, storeProfileSchema.strict()).optional(),
+  storesFile: z.string().min(1).optional(),
+  categories: z.union([z.enum(['all', 'none']), z.array(z.enum(categoryNames))], {
+    errorMap: () => ({ message: `Use 'all', 'none' or a list of: ${categoryNames.join(', ')}` }),
+  }).optional(),
+  enabledTools: z.array(z.string().min(1)).optional(),
+  disabledTools: z.array(z.string().min(1)).optional(),
+  tools: z.record(z.string().refine(name => !!getToolDefinition(name), 'Unknown tool'), toolOverrideSchema).optional(),
+  safety: z.object({
+    readOnly: z.boolean().optional(),
+    dryRun: z.boolean().optional(),
+    confirmTools: z.union([z.literal('none'), z.array(z.string().min(1))]).optional(),
+    confirmTtlSeconds: positiveInt.optional(),
+    confirmElicit: z.boolean().optional(),
+    scopeMode: z.enum(['skip', 'annotate', 'off']).optional(),
+    graphqlMutations: z.array(z.string().min(1)).optional(),
+    graphqlMaxCost: z.number().positive().optional(),
+  }).strict().optional(),
+  cache: z.object({
+    ttlSeconds: z.number().int().min(0).optional(),
+    maxEntries: positiveInt.optional(),
+  }).strict().optional(),
+  logging: z.object({
+    journal: z.boolean().optional(),
+    journalMaxBytes: positiveInt.optional(),
+    journalFiles: positiveInt.optional(),
+  }).strict().optional(),
+  storage: z.object({
+    dataDir: z.string().min(1).optional(),
+    exportDir: z.string().min(1).optional(),
+    changeHistorySize: positiveInt.optional(),
+  }).strict().optional(),
+  retry: z.object({
+    maxRetries: z.number().int().min(0).optional(),
+    baseDelayMs: positiveInt.optional(),
+    maxDelayMs: positiveInt.optional(),
+  }).strict().optional(),
+  server: z.object({
+    transport: z.enum(['stdio', 'http']).optional(),
+    host: z.string().min(1).optional(),
+    port: z.number().int().min(0).max(65535).optional(),
+    allowedHosts: z.array(z.string().min(1)).optional(),
+    sessionIdleSeconds: positiveInt.optional(),
+    maxSessions: positiveInt.optional(),
+  }).strict().optional(),
+}).strict();
+
+export type ConfigFile = z.infer<typeof configFileSchema>;
+export type ToolOverride = z.infer<typeof toolOverrideSchema>;
+
+export interface LoadedConfigFile {
+  path: string;
+  config: ConfigFile;
+}
+
+// `--config <path>` or `--config=<path>`
+function configFlag(argv: string[]): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--config') return argv[i + 1];
+    if (argv[i].startsWith('--config=')) return argv[i].slice('--config='.length);
+  }
+  return undefined;
+}
+
+function describeIssues(error: z.ZodError): string[] {
+  return error.issues.flatMap((issue) => {
+    const at = issue.path.join('.');
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      return issue.keys.map(key => `${at ? `${at}.` : ''}${key}: Unknown key`);
+    }
+    return [`${at || '(root)'}: ${issue.message}`];
+  });
+}
+
+/**
+ * Read and validate the config file, if there is one
+ *
+ * Throws with every invalid key listed when the file can't be parsed or
+ * doesn't match the schema, and when an explicitly named file is missing.
+ */
+export function loadConfigFile(argv: string[] = process.argv.slice(2), cwd: string = process.cwd()): LoadedConfigFile | undefined {
+  const named = configFlag(argv) ?? (process.env.SHOPIFY_MCP_CONFIG || undefined);
+  const found = CONFIG_FILE_NAMES.map(name => path.join(cwd, name)).filter(file => existsSync(file));
+  const file = named ? path.resolve(cwd, named) : found[0];
+
+  if (!file) {
+    return undefined;
+  }
+  if (!named && found.length > 1) {
+    console.error(`[WARN] Several config files found, using ${file}: ${found.join(', ')}`);
+  }
+
+  let raw: unknown;
+  try {
+    const text = readFileSync(file, 'utf8');
+    raw = file.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Could not read config file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = configFileSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid config file ${file}:\n${describeIssues(parsed.error).map(issue => `  - ${issue}`).join('\n')}`);
+  }
+
+  return { path: file, config: parsed.data };
+}
+
+const flag = (value: boolean | undefined) => (value === undefined ? undefined : String(value));
+const number = (value: number | undefined) => (value === undefined ? undefined : String(value));
+const list = (value: string[] | undefined) => value?.join(',');
+
+// Confirmation list after per-tool overrides; undefined when the file doesn't touch it
+function confirmTools(config: ConfigFile): string | undefined {
+  const overrides = Object.entries(config.tools ?? {}).filter(([, override]) => override.confirm !== undefined);
+  const base = config.safety?.confirmTools;
+  if (base === undefined && overrides.length === 0) {
+    return undefined;
+  }
+
+  const tools = new Set(base === 'none' ? [] : base ?? DEFAULT_CONFIRM_TOOLS);
+  for (const [name, { confirm }] of overrides) {
+    if (confirm) tools.add(name);
+    else tools.delete(name);
+  }
+  return tools.size > 0 ? [...tools].join(',') : 'none';
+}
+
+// Glob list plus the tools switched on (or off) one by one in `tools`
+function toolPatterns(patterns: string[] | undefined, config: ConfigFile, enabled: boolean): string | undefined {
+  const all = [
+    ...(patterns ?? []),
+    ...Object.entries(config.tools ?? {}).filter(([, override]) => override.enabled === enabled).map(([name]) => name),
+  ];
+  return all.length > 0 ? list(all) : undefined;
+}
+
+/**
+ * The environment variables a config file stands for
+ */
+export function environmentOf(config: ConfigFile): Record<string, string | undefined> {
+  const { safety, cache, logging, storage, retry, server } = config;
+
+  return {
+    SHOPIFY_API_VERSION: config.apiVersion,
+    SHOPIFY_DEFAULT_STORE: config.defaultStore,
+    SHOPIFY_STORES_FILE: config.storesFile,
+    ENABLED_TOOL_CATEGORIES: typeof config.categories === 'string' ? config.categories : list(config.categories),
+    ENABLED_TOOLS: toolPatterns(config.enabledTools, config, true),
+    DISABLED_TOOLS: toolPatterns(config.disabledTools, config, false),
+    SHOPIFY_MCP_READ_ONLY: flag(safety?.readOnly),
+    SHOPIFY_MCP_DRY_RUN: flag(safety?.dryRun),
+    SHOPIFY_MCP_CONFIRM_TOOLS: confirmTools(config),
+    SHOPIFY_MCP_CONFIRM_TTL_SECONDS: number(safety?.confirmTtlSeconds),
+    SHOPIFY_MCP_CONFIRM_ELICIT: flag(safety?.confirmElicit),
+    SHOPIFY_MCP_SCOPE_MODE: safety?.scopeMode,
+    SHOPIFY_MCP_GRAPHQL_MUTATIONS: list(safety?.graphqlMutations),
+    SHOPIFY_MCP_GRAPHQL_MAX_COST: number(safety?.graphqlMaxCost),
+    SHOPIFY_MCP_CACHE_TTL_SECONDS: number(cache?.ttlSeconds),
+    SHOPIFY_MCP_CACHE_MAX_ENTRIES: number(cache?.maxEntries),
+    SHOPIFY_MCP_JOURNAL: flag(logging?.journal),
+    SHOPIFY_MCP_JOURNAL_MAX_BYTES: number(logging?.journalMaxBytes),
+    SHOPIFY_MCP_JOURNAL_FILES: number(logging?.journalFiles),
+    SHOPIFY_MCP_DATA_DIR: storage?.dataDir,
+    SHOPIFY_MCP_EXPORT_DIR: storage?.exportDir,
+    SHOPIFY_MCP_CHANGE_HISTORY_SIZE: number(storage?.changeHistorySize),
+    SHOPIFY_MAX_RETRIES: number(retry?.maxRetries),
+    SHOPIFY_RETRY_BASE_DELAY_MS: number(retry?.baseDelayMs),
+    SHOPIFY_RETRY_MAX_DELAY_MS: number(retry?.maxDelayMs),
+    MCP_TRANSPORT: server?.transport,
+    MCP_HTTP_HOST: server?.host,
+    MCP_HTTP_PORT: number(server?.port),
+    MCP_ALLOWED_HOSTS: list(server?.allowedHosts),
+    MCP_SESSION_IDLE_SECONDS: number(server?.sessionIdleSeconds),
+    MCP_MAX_SESSIONS: number(server?.maxSessions),
+  };
+}
+
+/**
+ * Fill in every environment variable the file sets and the environment
+ * doesn't; returns the variables whose environment value won
+ */
+export function applyConfigFile(config: ConfigFile): string[] {
+  const overridden: string[] = [];
+
+  for (const [name, value] of Object.entries(environmentOf(config))) {
+    if (value === undefined) continue;
+    if (process.env[name] !== undefined) {
+      overridden.push(name);
+    } else {
+      process.env[name] = value;
+    }
+  }
+
+  return overridden;
+}
+
+/**
+ * Store profiles defined in the config file
+ */
+export function configuredStores(config: ConfigFile | undefined): ProfileSettings[] {
+  return Object.entries(config?.stores ?? {}).map(([name, profile]) => ({ name, ...profile }));
+}
@@ -0,0 +1,129 @@
+/**
+ * Transport configuration for Shopify GraphQL MCP
+ *
+ * The server speaks stdio by default. `--transport http` (or
+ * MCP_TRANSPORT=http) serves Streamable HTTP on /mcp and the legacy SSE
+ * transport on /sse + /messages instead, so one instance can be shared by a
+ * team or run as a sidecar.
+ *
+ *   --transport <stdio|http>     MCP_TRANSPORT             (default: stdio)
+ *   --host <address>             MCP_HTTP_HOST             (default: 127.0.0.1)
+ *   --port <number>              MCP_HTTP_PORT             (default: 3000)
+ *   --allowed-hosts <list>       MCP_ALLOWED_HOSTS         (default: loopback names on loopback)
+ *   --session-idle-seconds <n>   MCP_SESSION_IDLE_SECONDS  (default: 1800)
+ *   --max-sessions <n>           MCP_MAX_SESSIONS          (default: 100)
+ *
+ * Requests whose Host header, or Origin header when present, names a host
+ * outside MCP_ALLOWED_HOSTS are refused, so a web page can't reach a local
+ * server through DNS rebinding. Sessions idle for longer than the timeout are
+ * closed, and new sessions are refused once the cap is reached.
+ *
+ * HTTP clients authenticate with either a bearer token (MCP_AUTH_TOKEN, sent
+ * as `Authorization: Bearer <token>`) or a shared secret (MCP_SHARED_SECRET,
+ * sent as `X-MCP-Shared-Secret: <secret>`). Without either, the server only
+ * binds to a loopback address unless MCP_ALLOW_UNAUTHENTICATED=true.
+ */
+
+export type TransportMode = 'stdio' | 'http';
+
+export interface ServerOptions {
+  transport: TransportMode;
+  host: string;
+  port: number;
+  authToken?: string;
+  sharedSecret?: string;
+  allowUnauthenticated: boolean;
+  /** Host names accepted in Host/Origin headers; empty accepts any */
+  allowedHosts: string[];
+  sessionIdleMs: number;
+  maxSessions: number;
+}
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.has(host) || host.startsWith('127.');
+}
+
+function positiveInteger(raw: string, name: string): number {
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid ${name} '${raw}'. Use a positive whole number`);
+  }
+  return value;
+}
+
+function readFlags(argv: string[]): Record<string, string> {
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    if (inline !== undefined) {
+      flags[name] = inline;
+    } else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) {
+      flags[name] = argv[++i];
+    } else {
+      flags[name] = 'true';
+    }
+  }
+
+  return flags;
+}
+
+// Configured names plus the loopback names when bound to loopback; empty (any host) otherwise
+function allowedHosts(raw: string | undefined, host: string): string[] {
+  const configured = (raw ?? '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  return isLoopbackHost(host) ? [...new Set([...LOOPBACK_HOSTS, host.toLowerCase(), ...configured])] : configured;
+}
+
+/**
+ * Resolve transport settings from command-line flags, then environment
+ *
+ * Throws on invalid values, and when HTTP would be exposed beyond loopback
+ * without any authentication configured.
+ */
+export function loadServerOptions(argv: string[] = process.argv.slice(2)): ServerOptions {
+  const flags = readFlags(argv);
+
+  const transport = (flags.transport ?? process.env.MCP_TRANSPORT ?? 'stdio').trim().toLowerCase();
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Invalid transport '${transport}'. Use 'stdio' or 'http'`);
+  }
+
+  const host = (flags.host ?? process.env.MCP_HTTP_HOST ?? '127.0.0.1').trim();
+  const rawPort = (flags.port ?? process.env.MCP_HTTP_PORT ?? '3000').trim();
+  const port = Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port '${rawPort}'. Use a number between 0 and 65535`);
+  }
+
+  const options: ServerOptions = {
+    transport,
+    host,
+    port,
+    authToken: process.env.MCP_AUTH_TOKEN || undefined,
+    sharedSecret: process.env.MCP_SHARED_SECRET || undefined,
+    allowUnauthenticated: process.env.MCP_ALLOW_UNAUTHENTICATED?.toLowerCase() === 'true',
+    allowedHosts: allowedHosts(flags['allowed-hosts'] ?? process.env.MCP_ALLOWED_HOSTS, host),
+    sessionIdleMs: positiveInteger((flags['session-idle-seconds'] ?? process.env.MCP_SESSION_IDLE_SECONDS ?? '1800').trim(), 'session idle timeout') * 1000,
+    maxSessions: positiveInteger((flags['max-sessions'] ?? process.env.MCP_MAX_SESSIONS ?? '100').trim(), 'session limit'),
+  };
+
+  if (
+    transport === 'http' &&
+    !options.authToken &&
+    !options.sharedSecret &&
+    !options.allowUnauthenticated &&
+    !isLoopbackHost(host)
+  ) {
+    throw new Error(
+      `Refusing to serve unauthenticated HTTP on ${host}. Set MCP_AUTH_TOKEN or MCP_SHARED_SECRET, ` +
+      'bind to 127.0.0.1, or set MCP_ALLOW_UNAUTHENTICATED=true'
+    );
+  }
+
+  return options;
+}
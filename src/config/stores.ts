@@ -0,0 +1,218 @@
+/**
+ * Store profile configuration for Shopify GraphQL MCP
+ *
+ * One server can operate on several shops. Each shop is a named profile with
+ * its own credentials. Profiles are collected from three sources, in order:
+ *
+ *   1. A JSON file named by SHOPIFY_STORES_FILE:
+ *        {
+ *          "default": "main",
+ *          "stores": {
+ *            "main": { "accessToken": "shpat_...", "storeUrl": "main.myshopify.com", "apiUrl": "https://..." },
+ *            "eu":   { "accessToken": "shpat_...", "storeUrl": "eu.myshopify.com",   "apiUrl": "https://..." }
+ *          }
+ *        }
+ *
+ *   2. Prefixed environment variables, one set per profile:
+ *        SHOPIFY_PROFILE_EU_ACCESS_TOKEN=shpat_...
+ *        SHOPIFY_PROFILE_EU_STORE_URL=eu.myshopify.com
+ *        SHOPIFY_PROFILE_EU_STORE_API_URL=https://eu.myshopify.com/admin/api/2025-01/graphql.json
+ *
+ *   3. The classic SHOPIFY_ACCESS_TOKEN / SHOPIFY_STORE_URL / SHOPIFY_STORE_API_URL
+ *      trio, which becomes the profile named "default".
+ *
+ * Instead of a full API URL, a profile can name an Admin API version
+ * ("apiVersion" in the file, SHOPIFY_PROFILE_EU_API_VERSION, or
+ * SHOPIFY_API_VERSION for every profile); the endpoint is then derived from
+ * the store URL. An explicit API URL takes precedence.
+ *
+ * Stores from the config file (see config-file.ts) come before all of these.
+ *
+ * SHOPIFY_DEFAULT_STORE picks the profile used when a tool call doesn't name
+ * one; otherwise the file's "default", then "default", then the first profile.
+ */
+
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { StoreProfile } from '../types/index.js';
+
+export interface StoreConfiguration {
+  profiles: StoreProfile[];
+  defaultStore: string;
+}
+
+const apiVersionPattern = /^(\d{4}-(01|04|07|10)|unstable)$/;
+const apiVersionMessage = "API versions look like '2026-01' (January, April, July or October) or 'unstable'";
+
+export const apiVersionSchema = z.string().regex(apiVersionPattern, apiVersionMessage);
+
+export const storeNameSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, "Store names must be lower-case letters, digits, '-' or '_'");
+
+export const storeProfileSchema = z.object({
+  accessToken: z.string().min(1),
+  storeUrl: z.string().min(1),
+  apiUrl: z.string().url().optional(),
+  apiVersion: apiVersionSchema.optional(),
+});
+
+export type ProfileSettings = z.infer<typeof storeProfileSchema> & { name: string };
+
+/**
+ * The version segment of an Admin API URL (".../admin/api/2025-01/graphql.json")
+ */
+export function apiVersionFromUrl(apiUrl: string): string | undefined {
+  return apiUrl.match(/\/admin\/api\/(\d{4}-\d{2}|unstable)\//)?.[1];
+}
+
+/**
+ * GraphQL endpoint of the Admin API `version` for a store URL
+ * ("your-store.myshopify.com" or "https://your-store.myshopify.com")
+ */
+export function adminApiUrl(storeUrl: string, version: string): string {
+  const host = storeUrl.trim().replace(/^https?:\/\//, '').replace(/\/+$/, '');
+  return `https://${host}/admin/api/${version}/graphql.json`;
+}
+
+/**
+ * SHOPIFY_API_VERSION, validated
+ */
+export function apiVersionFromEnv(): string | undefined {
+  const version = process.env.SHOPIFY_API_VERSION?.trim();
+  if (!version) return undefined;
+  if (!apiVersionPattern.test(version)) {
+    throw new Error(`Invalid SHOPIFY_API_VERSION '${version}'. ${apiVersionMessage}`);
+  }
+  return version;
+}
+
+/**
+ * Complete a profile's endpoint: the explicit API URL, or the URL for its
+ * API version (falling back to SHOPIFY_API_VERSION)
+ */
+function resolveProfile(settings: ProfileSettings, defaultVersion: string | undefined): StoreProfile | undefined {
+  const { apiUrl, ...rest } = settings;
+  const requested = settings.apiVersion ?? defaultVersion;
+
+  if (apiUrl) {
+    const urlVersion = apiVersionFromUrl(apiUrl);
+    if (requested && urlVersion && urlVersion !== requested) {
+      console.error(`[WARN] Store profile '${settings.name}': API URL uses version ${urlVersion}, not ${requested}; using the URL`);
+    }
+    return { ...rest, apiUrl, apiVersion: urlVersion ?? requested };
+  }
+
+  if (!requested) {
+    return undefined;
+  }
+  return { ...rest, apiUrl: adminApiUrl(settings.storeUrl, requested), apiVersion: requested };
+}
+
+const storesFileSchema = z.object({
+  default: z.string().optional(),
+  stores: z.record(storeNameSchema, storeProfileSchema),
+});
+
+function loadStoresFile(filePath: string): { profiles: ProfileSettings[]; defaultStore?: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read SHOPIFY_STORES_FILE (${filePath}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = storesFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid SHOPIFY_STORES_FILE (${filePath}): ${issues.join('; ')}`);
+  }
+
+  return {
+    profiles: Object.entries(parsed.data.stores).map(([name, profile]) => ({ name, ...profile })),
+    defaultStore: parsed.data.default,
+  };
+}
+
+function loadProfileEnvVars(): ProfileSettings[] {
+  const profiles: ProfileSettings[] = [];
+
+  for (const key of Object.keys(process.env)) {
+    const match = key.match(/^SHOPIFY_PROFILE_([A-Z0-9_]+)_ACCESS_TOKEN$/);
+    if (!match) continue;
+
+    const prefix = `SHOPIFY_PROFILE_${match[1]}`;
+    const name = match[1].toLowerCase();
+    const storeUrl = process.env[`${prefix}_STORE_URL`];
+    const apiUrl = process.env[`${prefix}_STORE_API_URL`] || undefined;
+    const apiVersion = process.env[`${prefix}_API_VERSION`]?.trim() || undefined;
+
+    if (!storeUrl) {
+      console.error(`[WARN] Ignoring store profile '${name}': ${prefix}_STORE_URL must be set`);
+      continue;
+    }
+    if (apiVersion && !apiVersionPattern.test(apiVersion)) {
+      throw new Error(`Invalid ${prefix}_API_VERSION '${apiVersion}'. ${apiVersionMessage}`);
+    }
+
+    profiles.push({ name, accessToken: process.env[key]!, storeUrl, apiUrl, apiVersion });
+  }
+
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Collect every configured store profile
+ *
+ * Throws when the stores file is unreadable or invalid, or when the requested
+ * default store doesn't exist. Returns an empty profile list when nothing is
+ * configured at all. `configured` are the stores of the config file.
+ */
+export function loadStoreConfiguration(configured: ProfileSettings[] = []): StoreConfiguration {
+  const byName = new Map<string, StoreProfile>();
+  let fileDefault: string | undefined;
+  const defaultVersion = apiVersionFromEnv();
+
+  const add = (settings: ProfileSettings, source: string) => {
+    const profile = resolveProfile(settings, defaultVersion);
+    if (!profile) {
+      console.error(`[WARN] Ignoring store profile '${settings.name}' from ${source}: set an API URL or an API version (SHOPIFY_API_VERSION)`);
+      return;
+    }
+    if (byName.has(profile.name)) {
+      console.error(`[WARN] Store profile '${profile.name}' from ${source} overrides an earlier definition`);
+    }
+    byName.set(profile.name, profile);
+  };
+
+  configured.forEach(profile => add(profile, 'the config file'));
+
+  const storesFile = process.env.SHOPIFY_STORES_FILE;
+  if (storesFile) {
+    const loaded = loadStoresFile(storesFile);
+    loaded.profiles.forEach(profile => add(profile, 'SHOPIFY_STORES_FILE'));
+    fileDefault = loaded.defaultStore;
+  }
+
+  loadProfileEnvVars().forEach(profile => add(profile, 'environment'));
+
+  const accessToken = process.env.SHOPIFY_ACCESS_TOKEN;
+  const storeUrl = process.env.SHOPIFY_STORE_URL;
+  const apiUrl = process.env.SHOPIFY_STORE_API_URL || undefined;
+  if (accessToken && storeUrl) {
+    add({ name: 'default', accessToken, storeUrl, apiUrl }, 'SHOPIFY_ACCESS_TOKEN');
+  }
+
+  const profiles = [...byName.values()];
+  if (profiles.length === 0) {
+    return { profiles, defaultStore: '' };
+  }
+
+  const requested = process.env.SHOPIFY_DEFAULT_STORE?.trim().toLowerCase() || fileDefault;
+  if (requested && !byName.has(requested)) {
+    throw new Error(`Default store '${requested}' is not configured. Available stores: ${profiles.map(p => p.name).join(', ')}`);
+  }
+
+  return {
+    profiles,
+    defaultStore: requested ?? (byName.has('default') ? 'default' : profiles[0].name),
+  };
+}
@@ -13,8 +13,13 @@
  *   ENABLED_TOOL_CATEGORIES=essential,commerce
  *   ENABLED_TOOL_CATEGORIES=all           # Enable all categories
  *   ENABLED_TOOL_CATEGORIES=none          # Disable all categories
+ *
+ *   The config file's `categories` key sets ENABLED_TOOL_CATEGORIES (see config-file.ts).
+ *   ENABLED_TOOLS/DISABLED_TOOLS refine the categories tool by tool (see tool-filter.ts).
  */
 
+import { toolDefinitions } from '../utils/scope-mapper.js';
+
 export type ToolCategory = 
   | 'essential'
   | 'commerce'
@@ -27,18 +32,16 @@ export type ToolCategory =
 export interface CategoryConfig {
   name: ToolCategory;
   description: string;
-  toolCount: number;
   modules: string[];
 }
 
 /**
- * Essential tools - core e-commerce operations (~35 tools)
+ * Essential tools - core e-commerce operations
  * These are enabled by default for most users
  */
 export const ESSENTIAL_CATEGORIES: CategoryConfig = {
   name: 'essential',
   description: 'Core e-commerce operations: products, orders, customers, inventory, collections',
-  toolCount: 35,
   modules: [
     'shop',
     'products',
@@ -54,12 +57,11 @@ export const ESSENTIAL_CATEGORIES: CategoryConfig = {
 };
 
 /**
- * Commerce tools - extended commerce features (~55 tools)
+ * Commerce tools - extended commerce features
  */
 export const COMMERCE_CATEGORIES: CategoryConfig = {
   name: 'commerce',
   description: 'Extended commerce: gift cards, returns, checkouts, payments, store credit, subscriptions',
-  toolCount: 55,
   modules: [
     'gift-cards',
     'returns',
@@ -80,12 +82,11 @@ export const COMMERCE_CATEGORIES: CategoryConfig = {
 };
 
 /**
- * Marketing tools - marketing and promotional features (~20 tools)
+ * Marketing tools - marketing and promotional features
  */
 export const MARKETING_CATEGORIES: CategoryConfig = {
   name: 'marketing',
   description: 'Marketing: campaigns, markets, channels, discovery, price rules',
-  toolCount: 20,
   modules: [
     'marketing-campaigns',
     'markets',
@@ -99,12 +100,11 @@ export const MARKETING_CATEGORIES: CategoryConfig = {
 };
 
 /**
- * Content tools - store content and theming (~25 tools)
+ * Content tools - store content and theming
  */
 export const CONTENT_CATEGORIES: CategoryConfig = {
   name: 'content',
   description: 'Content: pages, navigation, themes, files, metaobjects, translations',
-  toolCount: 25,
   modules: [
     'pages',
     'navigation',
@@ -118,12 +118,11 @@ export const CONTENT_CATEGORIES: CategoryConfig = {
 };
 
 /**
- * Advanced tools - complex/technical features (~20 tools)
+ * Advanced tools - complex/technical features
  */
 export const ADVANCED_CATEGORIES: CategoryConfig = {
   name: 'advanced',
   description: 'Advanced: cart transforms, validations, audit events, custom pixels, scripts',
-  toolCount: 20,
   modules: [
     'cart-transforms',
     'validations',
@@ -136,16 +135,16 @@ export const ADVANCED_CATEGORIES: CategoryConfig = {
     'privacy-settings',
     'shipping',
     'product-listings',
+    'graphql',
   ],
 };
 
 /**
- * Reporting tools - reports and feedback (~15 tools)
+ * Reporting tools - reports and feedback
  */
 export const REPORTING_CATEGORIES: CategoryConfig = {
   name: 'reporting',
   description: 'Reporting: reports, resource feedbacks, apps',
-  toolCount: 15,
   modules: [
     'reports',
     'resource-feedbacks',
@@ -154,16 +153,16 @@ export const REPORTING_CATEGORIES: CategoryConfig = {
 };
 
 /**
- * Automation tools - inventory automation (~15 tools)
+ * Automation tools - inventory automation and bulk operations
  */
 export const AUTOMATION_CATEGORIES: CategoryConfig = {
   name: 'automation',
-  description: 'Automation: inventory shipments, transfers, packing slips',
-  toolCount: 15,
+  description: 'Automation: inventory shipments, transfers, packing slips, bulk operations',
   modules: [
     'inventory-shipments',
     'inventory-transfers',
     'packing-slip-templates',
+    'bulk-operations',
   ],
 };
 
@@ -243,14 +242,18 @@ export function getCategoryConfig(name: string): CategoryConfig | undefined {
   return ALL_CATEGORIES.find(c => c.name === name);
 }
 
+/**
+ * Number of tools a category provides, counted from the tools each module
+ * declares in the scope map (see `npm run manifest`)
+ */
+export function getCategoryToolCount(name: string): number {
+  const modules = new Set(getCategoryConfig(name)?.modules ?? []);
+  return toolDefinitions.filter(tool => modules.has(tool.module)).length;
+}
+
 /**
  * Get total tool count for enabled categories
  */
 export function getEnabledToolCount(enabledCategories: string[]): number {
-  if (enabledCategories.length === 0) return 0;
-  
-  return enabledCategories.reduce((total, catName) => {
-    const cat = getCategoryConfig(catName);
-    return total + (cat?.toolCount || 0);
-  }, 0);
+  return enabledCategories.reduce((total, catName) => total + getCategoryToolCount(catName), 0);
 }
@@ -0,0 +1,260 @@
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { randomUUID, timingSafeEqual } from "crypto";
+import { AddressInfo } from "net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { ServerOptions } from "./config/server.js";
+
+/**
+ * HTTP front end for the MCP server
+ *
+ *   POST/GET/DELETE /mcp   Streamable HTTP (current protocol)
+ *   GET /sse               legacy SSE stream; the client posts to /messages?sessionId=...
+ *   GET /health            liveness probe, no authentication
+ *
+ * Every session gets its own McpServer (tools are registered per server), but
+ * all of them share the same store clients and therefore the same query cost
+ * buckets. Host/Origin checks, the idle timeout and the session cap are
+ * configured in config/server.ts.
+ */
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  lastSeen: number;
+}
+
+export interface HttpServerHandle {
+  /** Base URL the server is listening on */
+  url: string;
+  close(): Promise<void>;
+}
+
+function secretsMatch(expected: string, received: string | undefined): boolean {
+  if (!received) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function isAuthorized(req: IncomingMessage, options: ServerOptions): boolean {
+  if (!options.authToken && !options.sharedSecret) {
+    return true;
+  }
+
+  const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const sharedSecret = req.headers["x-mcp-shared-secret"];
+
+  return (
+    (!!options.authToken && secretsMatch(options.authToken, bearer)) ||
+    (!!options.sharedSecret && secretsMatch(options.sharedSecret, Array.isArray(sharedSecret) ? sharedSecret[0] : sharedSecret))
+  );
+}
+
+function headerHost(value: string): string | undefined {
+  try {
+    return new URL(value.includes("://") ? value : `http://${value}`).hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Guard against DNS rebinding: the Host header, and the Origin header when a
+ * browser sends one, must name an allowed host
+ */
+function isAllowedOrigin(req: IncomingMessage, options: ServerOptions): boolean {
+  if (options.allowedHosts.length === 0) {
+    return true;
+  }
+  const allowed = (value: string | undefined) => {
+    const host = value === undefined ? undefined : headerHost(value);
+    return !!host && options.allowedHosts.includes(host);
+  };
+  return allowed(req.headers.host) && (req.headers.origin === undefined || allowed(req.headers.origin));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Start serving MCP over HTTP; `createMcpServer` is called once per session
+ */
+export async function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: ServerOptions
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+
+  // Close sessions whose client went away without saying so
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - options.sessionIdleMs;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        console.error(`[INFO] Closing idle MCP session ${id}`);
+        void closeSession(id);
+      }
+    }
+  }, Math.min(options.sessionIdleMs, 60_000));
+  sweep.unref();
+
+  const atCapacity = (res: ServerResponse): boolean => {
+    if (sessions.size < options.maxSessions) return false;
+    sendRpcError(res, 503, `Too many sessions (limit ${options.maxSessions}); try again later`);
+    return true;
+  };
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.server.close().catch(() => undefined);
+  };
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendRpcError(res, 404, "Session not found");
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendRpcError(res, 400, "Bad Request: No valid session ID provided");
+      return;
+    }
+    if (atCapacity(res)) {
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, lastSeen: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) void closeSession(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseStream = async (res: ServerResponse) => {
+    if (atCapacity(res)) {
+      return;
+    }
+    const server = createMcpServer();
+    const transport = new SSEServerTransport("/messages", res);
+    sessions.set(transport.sessionId, { server, transport, lastSeen: Date.now() });
+    transport.onclose = () => {
+      void closeSession(transport.sessionId);
+    };
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const session = sessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendRpcError(res, 404, "Session not found");
+      return;
+    }
+    session.lastSeen = Date.now();
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    try {
+      if (!isAllowedOrigin(req, options)) {
+        sendRpcError(res, 403, "Forbidden: Host or Origin not allowed");
+        return;
+      }
+
+      if (url.pathname === "/health" && req.method === "GET") {
+        sendJson(res, 200, { status: "ok", sessions: sessions.size });
+        return;
+      }
+
+      if (!isAuthorized(req, options)) {
+        sendRpcError(res, 401, "Unauthorized");
+        return;
+      }
+
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSseStream(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendRpcError(res, 404, "Not found");
+      }
+    } catch (error) {
+      console.error("[ERROR] HTTP request failed:", error instanceof Error ? error.message : String(error));
+      if (!res.headersSent) {
+        sendRpcError(res, error instanceof SyntaxError ? 400 : 500, error instanceof SyntaxError ? "Parse error" : "Internal server error");
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address() as AddressInfo;
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+
+  return {
+    url: `http://${host}:${address.port}`,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all([...sessions.keys()].map(closeSession));
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
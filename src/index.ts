@@ -1,20 +1,125 @@
+import { writeFileSync } from "fs";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { registerTools } from "./tools/index.js";
+import { createToolContext, registerTools, ToolContext } from "./tools/index.js";
+import { loadServerOptions } from "./config/server.js";
+import { applyConfigFile, LoadedConfigFile, loadConfigFile } from "./config/config-file.js";
+import { startHttpServer } from "./http-server.js";
+import { buildToolManifest, manifestToMarkdown } from "./tools/manifest.js";
 
-// Create server instance
-const server = new McpServer({
-  name: "shopify-graphql-mcp",
-  version: "1.0.0",
-});
+// Create a server instance with all Shopify GraphQL tools registered
+function createServer(context: ToolContext): { server: McpServer; tools: string[] } {
+  // enable_tool_category registers dozens of tools at once; the client
+  // gets a single tools/list_changed for them
+  const server = new McpServer(
+    {
+      name: "shopify-graphql-mcp",
+      version: "1.0.0",
+    },
+    { debouncedNotificationMethods: ["notifications/tools/list_changed"] }
+  );
+
+  const tools = registerTools(server, context);
+  return { server, tools };
+}
+
+// Stop cleanly on SIGINT/SIGTERM
+function onShutdown(close: () => Promise<void>): void {
+  let closing = false;
+
+  const shutdown = (signal: string) => {
+    if (closing) return;
+    closing = true;
+    console.error(`[INFO] Received ${signal}, shutting down`);
+    close()
+      .catch((error) => console.error("[ERROR] Shutdown failed:", error instanceof Error ? error.message : String(error)))
+      .finally(() => process.exit(0));
+  };
+
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+}
+
+// Read the config file and fill in the environment it describes; exits with the list of problems when invalid
+function readConfigFile(): LoadedConfigFile | undefined {
+  let loaded: LoadedConfigFile | undefined;
+  try {
+    loaded = loadConfigFile();
+  } catch (error) {
+    console.error(`[ERROR] ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
+  if (loaded) {
+    const overridden = applyConfigFile(loaded.config);
+    console.error(`[INFO] Config file: ${loaded.path}`);
+    if (overridden.length > 0) {
+      console.error(`[INFO] Environment overrides config file settings: ${overridden.join(", ")}`);
+    }
+  }
+  return loaded;
+}
+
+// `manifest [--format json|markdown] [--output <file>]`: print every tool with its category, scopes and input schema
+async function manifestCommand(args: string[]): Promise<void> {
+  const option = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+  };
+  const format = option("format") ?? "json";
+  const output = option("output");
+
+  if (format !== "json" && format !== "markdown") {
+    console.error(`[ERROR] Unknown manifest format '${format}': use json or markdown`);
+    process.exit(1);
+  }
 
-// Register all Shopify GraphQL tools
-registerTools(server);
+  const manifest = await buildToolManifest();
+  if (manifest.problems.length > 0) {
+    console.error(`[ERROR] Tool declarations and registrations disagree:\n${manifest.problems.map(problem => `  - ${problem}`).join("\n")}`);
+    process.exit(1);
+  }
+
+  const text = format === "json"
+    ? `${JSON.stringify({ categories: manifest.categories, tools: manifest.tools }, null, 2)}\n`
+    : manifestToMarkdown(manifest);
+  if (output) {
+    writeFileSync(output, text);
+    console.error(`[INFO] Wrote ${manifest.tools.length} tools to ${output}`);
+  } else {
+    process.stdout.write(text);
+  }
+}
 
 // Main function to run the server
 async function main() {
+  if (process.argv[2] === "manifest") {
+    await manifestCommand(process.argv.slice(3));
+    return;
+  }
+
+  const configFile = readConfigFile();
+  const options = loadServerOptions();
+  const context = await createToolContext(configFile?.config);
+
+  // Every HTTP session gets its own server with the same tools, so the first
+  // one built is enough to report them
+  const { server, tools } = createServer(context);
+  console.error(`[INFO] Tools (${tools.length}): ${[...tools].sort().join(", ")}`);
+
+  if (options.transport === "http") {
+    const http = await startHttpServer(() => createServer(context).server, options);
+    onShutdown(() => http.close());
+    console.error(`Shopify GraphQL MCP Server running on ${http.url}/mcp (legacy SSE: ${http.url}/sse)`);
+    if (!options.authToken && !options.sharedSecret) {
+      console.error("[WARN] HTTP authentication is disabled. Set MCP_AUTH_TOKEN or MCP_SHARED_SECRET to require it.");
+    }
+    return;
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
+  onShutdown(() => server.close());
   console.error("Shopify GraphQL MCP Server running on stdio");
 }
 
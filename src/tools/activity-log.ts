@@ -0,0 +1,43 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { MutationJournal } from "../utils/journal.js";
+import { errorResult, jsonResult, textResult } from "../utils/tool-factory.js";
+
+export function registerActivityLogTools(server: McpServer, journal: MutationJournal | undefined) {
+  // Query the local mutation journal
+  server.registerTool(
+    "get_mcp_activity_log",
+    {
+      description: "List mutations this MCP server has sent to Shopify, newest first. Each entry has the tool, sanitized arguments, target and result IDs, and any userErrors. Unlike get_audit_events, this only covers changes made through this server.",
+      inputSchema: {
+        tool: z.string().optional().describe("Only entries for this tool (e.g., 'update_product')"),
+        resource: z.string().optional().describe("Only entries that targeted or returned this ID (e.g., 'gid://shopify/Product/123' or '123')"),
+        since: z.string().datetime({ offset: true }).optional().describe("Only entries at or after this ISO 8601 timestamp"),
+        until: z.string().datetime({ offset: true }).optional().describe("Only entries at or before this ISO 8601 timestamp"),
+        // Not `store`: with several stores that argument selects the profile to run against
+        journalStore: z.string().optional().describe("Only entries for this store profile"),
+        limit: z.number().int().min(1).max(500).default(50).describe("Maximum number of entries to return"),
+      },
+    },
+    async ({ tool, resource, since, until, journalStore, limit }) => {
+      if (!journal) {
+        return textResult("Error: The mutation journal is disabled (SHOPIFY_MCP_JOURNAL=false)", true);
+      }
+
+      try {
+        const entries = await journal.query({
+          tool,
+          resource,
+          store: journalStore,
+          since: since ? new Date(since) : undefined,
+          until: until ? new Date(until) : undefined,
+          limit,
+        });
+
+        return jsonResult({ count: entries.length, entries });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
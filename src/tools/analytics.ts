@@ -1,6 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { defineQueryTool } from "../utils/tool-factory.js";
 
 export function registerAnalyticsTools(server: McpServer, client: ShopifyGraphQLClient) {
   // Get Analytics Report
@@ -17,7 +18,7 @@ export function registerAnalyticsTools(server: McpServer, client: ShopifyGraphQL
     },
     async ({ reportType, startDate, endDate, granularity = "daily" }) => {
       const query = `
-        query GetAnalytics($startDate: DateTime!, $endDate: DateTime!) {
+        query GetAnalytics {
           shop {
             id
             name
@@ -26,7 +27,7 @@ export function registerAnalyticsTools(server: McpServer, client: ShopifyGraphQL
       `;
 
       try {
-        const result = await client.execute(query, { startDate, endDate });
+        const result = await client.execute(query);
         
         if (result.errors) {
           return {
@@ -51,49 +52,28 @@ export function registerAnalyticsTools(server: McpServer, client: ShopifyGraphQL
   );
 
   // ShopifyQL Query
-  server.registerTool(
-    "run_shopifyql_query",
-    {
-      description: "Execute a ShopifyQL query for custom analytics and reporting",
-      inputSchema: {
-        query: z.string().describe("ShopifyQL query string (e.g., 'SHOW total_sales, orders_count FROM sales OVER day SINCE -7d')"),
-      },
+  defineQueryTool(server, client, {
+    name: "run_shopifyql_query",
+    description: "Execute a ShopifyQL query for custom analytics and reporting",
+    inputSchema: {
+      query: z.string().describe("ShopifyQL query string (e.g., 'SHOW total_sales, orders_count FROM sales OVER day SINCE -7d')"),
     },
-    async ({ query }) => {
-      const graphqlQuery = `
-        query RunShopifyQL($query: String!) {
-          shopifyqlQuery(query: $query) {
-            results {
-              columns {
-                name
-                dataType
-              }
-              rows
-            }
-            parseErrors {
-              message
+    document: `
+      query RunShopifyQL($query: String!) {
+        shopifyqlQuery(query: $query) {
+          results {
+            columns {
+              name
+              dataType
             }
+            rows
+          }
+          parseErrors {
+            message
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { query });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: ({ query }) => ({ query }),
+  });
 }
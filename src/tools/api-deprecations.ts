@@ -0,0 +1,41 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { ApiDeprecationLog } from "../utils/api-deprecations.js";
+
+export function registerApiDeprecationTools(
+  server: McpServer,
+  client: ShopifyGraphQLClient | undefined,
+  deprecations: ApiDeprecationLog
+) {
+  // Deprecated fields hit since the server started
+  server.registerTool(
+    "get_api_deprecations",
+    {
+      description: "List the tools that used deprecated Admin API fields since the server started, with Shopify's deprecation reason for each, plus the API version requested and the one Shopify actually served. Use before upgrading the API version.",
+      inputSchema: {
+        tool: z.string().optional().describe("Only notices for this tool (e.g., 'get_products')"),
+      },
+    },
+    async ({ tool }) => {
+      const notices = deprecations.list().filter(notice => !tool || notice.tool === tool);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                apiVersion: client?.getApiVersion() ?? null,
+                tools: [...new Set(notices.map(notice => notice.tool))].sort(),
+                deprecations: notices,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+}
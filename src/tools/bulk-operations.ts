@@ -0,0 +1,424 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { createWriteStream } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { once } from "events";
+import path from "path";
+import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { currentDryRun } from "../utils/request-context.js";
+import { allowedMutationsFromEnv, loadAdminSchema, operationsOf, rootFieldNames, validateDocument } from "../utils/admin-schema.js";
+import { defineMutationTool, errorResult, responseResult, textResult } from "../utils/tool-factory.js";
+import {
+  BULK_OPERATION_FIELDS,
+  BulkOperation,
+  BulkMutationReport,
+  BulkResultAssembler,
+  buildBulkMutationReport,
+  collectUserErrors,
+  getBulkOperation,
+  isFinished,
+  parseVariablesFile,
+  streamBulkResult,
+  waitForBulkOperation,
+} from "../utils/bulk-operations.js";
+
+/**
+ * Resolve a file path inside SHOPIFY_MCP_EXPORT_DIR (default: the working
+ * directory) and refuse anything that would escape it
+ */
+function resolveExportPath(outputPath: string): string {
+  const root = path.resolve(process.env.SHOPIFY_MCP_EXPORT_DIR || process.cwd());
+  const resolved = path.resolve(root, outputPath);
+
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error(`Path must be inside the export directory (${root}): ${outputPath}`);
+  }
+
+  return resolved;
+}
+
+async function readVariables(variablesPath: string, format?: "jsonl" | "csv"): Promise<Record<string, unknown>[]> {
+  const source = resolveExportPath(variablesPath);
+  const resolvedFormat = format ?? (source.toLowerCase().endsWith(".csv") ? "csv" : "jsonl");
+  return parseVariablesFile(await readFile(source, "utf8"), resolvedFormat);
+}
+
+/**
+ * Report on a finished bulk mutation, optionally writing the failing input
+ * rows to a JSONL file that can be fixed up and re-run
+ */
+async function reportBulkMutation(
+  client: ShopifyGraphQLClient,
+  operation: BulkOperation,
+  inputs: Record<string, unknown>[],
+  failedRowsPath?: string
+): Promise<{ bulkOperation: BulkOperation; report?: BulkMutationReport; failedRowsFile?: string; note?: string }> {
+  const url = operation.url ?? operation.partialDataUrl;
+
+  if (!url) {
+    return { bulkOperation: operation, note: `Operation is ${operation.status}; no result file is available${isFinished(operation) ? "" : " yet"}` };
+  }
+
+  const report = await buildBulkMutationReport(client, url, inputs, { maxFailures: failedRowsPath ? Infinity : 100 });
+
+  if (failedRowsPath && report.failures.length > 0) {
+    const target = resolveExportPath(failedRowsPath);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, report.failures.map(failure => JSON.stringify(failure.input)).join("\n") + "\n", "utf8");
+    report.failures = report.failures.slice(0, 100);
+    return { bulkOperation: operation, report, failedRowsFile: target };
+  }
+
+  return { bulkOperation: operation, report };
+}
+
+export function registerBulkOperationTools(server: McpServer, client: ShopifyGraphQLClient) {
+  // Run Bulk Query
+  server.registerTool(
+    "run_bulk_query",
+    {
+      description: "Start a bulk query operation to export large datasets (e.g. all orders or products). Connections need no first/after arguments. Only one bulk query can run at a time.",
+      inputSchema: {
+        query: z.string().describe("GraphQL query to run in bulk (e.g., '{ products { edges { node { id title variants { edges { node { id sku } } } } } } }')"),
+        waitForCompletion: z.boolean().optional().describe("Poll until the operation finishes (or timeoutSeconds elapses) before returning"),
+        timeoutSeconds: z.number().min(1).max(600).optional().describe("Maximum time to wait when waitForCompletion is set (default: 120)"),
+      },
+    },
+    async ({ query, waitForCompletion = false, timeoutSeconds = 120 }) => {
+      const mutation = `
+        mutation BulkOperationRunQuery($query: String!) {
+          bulkOperationRunQuery(query: $query) {
+            bulkOperation {
+              ${BULK_OPERATION_FIELDS}
+            }
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `;
+
+      try {
+        const result = await client.execute<{ bulkOperationRunQuery: { bulkOperation: BulkOperation | null; userErrors: Array<{ field: string[]; message: string }> } }>(mutation, { query });
+
+        // GraphQL errors and userErrors (e.g. another bulk query is running) come back as errors
+        const operation = result.data?.bulkOperationRunQuery.bulkOperation;
+        if (result.errors || !operation || !waitForCompletion) {
+          return responseResult(result, { checkUserErrors: true, structured: false });
+        }
+
+        const finalState = await waitForBulkOperation(client, operation.id, timeoutSeconds * 1000);
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({ bulkOperation: finalState }, null, 2) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Get Bulk Operation
+  server.registerTool(
+    "get_bulk_operation",
+    {
+      description: "Get the status of a bulk operation by ID, or of the app's current bulk operation",
+      inputSchema: {
+        id: z.string().optional().describe("Bulk operation ID (e.g., 'gid://shopify/BulkOperation/123456789'); defaults to the current operation"),
+        type: z.enum(["QUERY", "MUTATION"]).optional().describe("Type of current operation to look up when no ID is given (default: QUERY)"),
+      },
+    },
+    async ({ id, type }) => {
+      try {
+        const operation = await getBulkOperation(client, { id, type });
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({ bulkOperation: operation }, null, 2) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Cancel Bulk Operation
+  defineMutationTool(server, client, {
+    name: "cancel_bulk_operation",
+    description: "Cancel a running bulk operation",
+    inputSchema: {
+      id: z.string().describe("Bulk operation ID (e.g., 'gid://shopify/BulkOperation/123456789')"),
+    },
+    document: `
+      mutation BulkOperationCancel($id: ID!) {
+        bulkOperationCancel(id: $id) {
+          bulkOperation {
+            id
+            status
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    variables: ({ id }) => ({ id }),
+  });
+
+  // Download Bulk Operation Result
+  server.registerTool(
+    "download_bulk_operation_result",
+    {
+      description: "Download the JSONL result of a completed bulk operation, rebuild nested objects from __parentId links, and either summarise it or write it to a local file",
+      inputSchema: {
+        id: z.string().optional().describe("Bulk operation ID; defaults to the current bulk query"),
+        mode: z.enum(["summary", "file"]).optional().describe("'summary' returns counts and a sample; 'file' writes every record to outputPath (default: summary)"),
+        outputPath: z.string().optional().describe("File to write in 'file' mode, relative to SHOPIFY_MCP_EXPORT_DIR (default: working directory)"),
+        format: z.enum(["jsonl", "json"]).optional().describe("Output file format: one nested object per line, or a single JSON array (default: jsonl)"),
+        sampleSize: z.number().min(0).max(50).optional().describe("Number of records to include in a summary (default: 5)"),
+      },
+    },
+    async ({ id, mode = "summary", outputPath, format = "jsonl", sampleSize = 5 }) => {
+      try {
+        // Only the URL Shopify issued for the operation is fetched, never one from the arguments
+        const operation = await getBulkOperation(client, { id });
+        if (!operation) {
+          return textResult("Error: No bulk operation found", true);
+        }
+        if (operation.status !== "COMPLETED") {
+          return textResult(`Error: Bulk operation ${operation.id} is ${operation.status}${operation.errorCode ? ` (${operation.errorCode})` : ""}; results are only available once it has COMPLETED`, true);
+        }
+        if (!operation.url) {
+          return textResult(JSON.stringify({ bulkOperation: operation, records: 0, note: "Operation completed without returning any objects" }, null, 2));
+        }
+        const downloadUrl = operation.url;
+
+        const assembler = new BulkResultAssembler();
+        let records = 0;
+
+        if (mode === "file") {
+          if (!outputPath) {
+            return textResult("Error: outputPath is required in 'file' mode", true);
+          }
+
+          const target = resolveExportPath(outputPath);
+          await mkdir(path.dirname(target), { recursive: true });
+          const out = createWriteStream(target, { encoding: "utf8" });
+
+          try {
+            if (format === "json") out.write("[\n");
+            for await (const record of streamBulkResult(client, downloadUrl, assembler)) {
+              const line = format === "json"
+                ? `${records > 0 ? ",\n" : ""}${JSON.stringify(record)}`
+                : `${JSON.stringify(record)}\n`;
+              records++;
+              if (!out.write(line)) await once(out, "drain");
+            }
+            if (format === "json") out.write("\n]\n");
+          } finally {
+            out.end();
+            await once(out, "close");
+          }
+
+          return {
+            content: [{ type: "text", text: JSON.stringify({
+              file: target,
+              format,
+              records,
+              lines: assembler.lines,
+              objectCounts: assembler.typeCounts,
+              orphanedLines: assembler.orphans,
+            }, null, 2) }],
+          };
+        }
+
+        const sample: Record<string, unknown>[] = [];
+        for await (const record of streamBulkResult(client, downloadUrl, assembler)) {
+          if (sample.length < sampleSize) sample.push(record);
+          records++;
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({
+            records,
+            lines: assembler.lines,
+            objectCounts: assembler.typeCounts,
+            orphanedLines: assembler.orphans,
+            sample,
+          }, null, 2) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Run Bulk Mutation
+  server.registerTool(
+    "run_bulk_mutation",
+    {
+      description: "Apply one mutation to many records with bulkOperationRunMutation. Reads one set of variables per row from a local JSONL or CSV file, stages the upload, starts the operation and, once finished, reports successes and the failing input rows. The mutation field must be allowlisted in SHOPIFY_MCP_GRAPHQL_MUTATIONS.",
+      inputSchema: {
+        mutation: z.string().describe("Mutation to run for every row (e.g., 'mutation call($input: ProductInput!) { productUpdate(input: $input) { product { id } userErrors { field message } } }')"),
+        variablesPath: z.string().describe("JSONL (one variables object per line) or CSV file, relative to SHOPIFY_MCP_EXPORT_DIR. CSV headers name variables, with dots for nesting (e.g., 'input.id,input.title')"),
+        format: z.enum(["jsonl", "csv"]).optional().describe("Variables file format (default: from the file extension)"),
+        waitForCompletion: z.boolean().optional().describe("Poll until the operation finishes and include the result report (default: true)"),
+        timeoutSeconds: z.number().min(1).max(600).optional().describe("Maximum time to wait for completion (default: 300)"),
+        failedRowsPath: z.string().optional().describe("Write every failing input row to this JSONL file (relative to SHOPIFY_MCP_EXPORT_DIR)"),
+      },
+    },
+    async ({ mutation, variablesPath, format, waitForCompletion = true, timeoutSeconds = 300, failedRowsPath }) => {
+      const stagedUploadMutation = `
+        mutation StagedUploadsCreate($input: [StagedUploadInput!]!) {
+          stagedUploadsCreate(input: $input) {
+            stagedTargets {
+              url
+              resourceUrl
+              parameters {
+                name
+                value
+              }
+            }
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `;
+
+      const runMutation = `
+        mutation BulkOperationRunMutation($mutation: String!, $stagedUploadPath: String!) {
+          bulkOperationRunMutation(mutation: $mutation, stagedUploadPath: $stagedUploadPath) {
+            bulkOperation {
+              ${BULK_OPERATION_FIELDS}
+            }
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `;
+
+      try {
+        // Any mutation can run over thousands of rows, so it takes the same
+        // allowlist as execute_graphql
+        const { schema } = loadAdminSchema(client.getApiVersion().requested);
+        const validation = validateDocument(schema, mutation);
+        if (!validation.ast) {
+          return textResult(`Error: The mutation is not valid for the Admin API: ${validation.errors.join("; ")}`, true);
+        }
+        const operations = operationsOf(validation.ast);
+        if (operations.length !== 1 || operations[0].operation !== "mutation") {
+          return textResult("Error: Send exactly one mutation operation", true);
+        }
+        const allowedMutations = allowedMutationsFromEnv();
+        const denied = rootFieldNames(validation.ast, operations[0]).filter(name => !allowedMutations.has(name));
+        if (denied.length > 0) {
+          return textResult(`Error: Mutation not allowed: ${denied.join(", ")}. Add it to SHOPIFY_MCP_GRAPHQL_MUTATIONS to run it in bulk`, true);
+        }
+
+        const inputs = await readVariables(variablesPath, format);
+        if (inputs.length === 0) {
+          return textResult("Error: The variables file contains no rows", true);
+        }
+
+        // The first mutation sent is the staged upload, so a dry run would
+        // only preview that; report the bulk mutation itself instead
+        if (currentDryRun()) {
+          return textResult(JSON.stringify({
+            dryRun: true,
+            tool: "run_bulk_mutation",
+            message: "Dry run: nothing was staged or sent",
+            mutation,
+            rows: inputs.length,
+            sample: inputs.slice(0, 3),
+          }, null, 2));
+        }
+
+        const staged = await client.execute<{ stagedUploadsCreate: { stagedTargets: Array<{ url: string; resourceUrl: string | null; parameters: Array<{ name: string; value: string }> }>; userErrors: Array<{ field: string[]; message: string }> } }>(stagedUploadMutation, {
+          input: [{ resource: "BULK_MUTATION_VARIABLES", filename: "bulk_op_vars.jsonl", mimeType: "text/jsonl", httpMethod: "POST" }],
+        });
+
+        if (staged.errors || collectUserErrors(staged.data).length > 0) {
+          return responseResult(staged, { checkUserErrors: true, structured: false });
+        }
+
+        const target = staged.data?.stagedUploadsCreate.stagedTargets[0];
+        const stagedUploadPath = target?.parameters.find(parameter => parameter.name === "key")?.value;
+        if (!target || !stagedUploadPath) {
+          return textResult("Error: Staged upload could not be created: Shopify returned no upload target", true);
+        }
+
+        await client.uploadStaged(target.url, target.parameters, {
+          filename: "bulk_op_vars.jsonl",
+          contentType: "text/jsonl",
+          content: inputs.map(row => JSON.stringify(row)).join("\n") + "\n",
+        });
+
+        const result = await client.execute<{ bulkOperationRunMutation: { bulkOperation: BulkOperation | null; userErrors: Array<{ field: string[]; message: string }> } }>(runMutation, { mutation, stagedUploadPath });
+
+        if (result.errors || collectUserErrors(result.data).length > 0) {
+          return responseResult(result, { checkUserErrors: true, structured: false });
+        }
+
+        const operation = result.data?.bulkOperationRunMutation.bulkOperation;
+        if (!waitForCompletion || !operation) {
+          return textResult(JSON.stringify({ rows: inputs.length, ...result.data }, null, 2));
+        }
+
+        const finalState = await waitForBulkOperation(client, operation.id, timeoutSeconds * 1000);
+        if (!finalState || !isFinished(finalState)) {
+          return {
+            content: [{ type: "text", text: JSON.stringify({
+              rows: inputs.length,
+              bulkOperation: finalState,
+              note: "Operation is still running. Call get_bulk_mutation_report with this ID and the same variablesPath once it has finished.",
+            }, null, 2) }],
+          };
+        }
+
+        const outcome = await reportBulkMutation(client, finalState, inputs, failedRowsPath);
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({ rows: inputs.length, ...outcome }, null, 2) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Get Bulk Mutation Report
+  server.registerTool(
+    "get_bulk_mutation_report",
+    {
+      description: "Parse the per-row result file of a bulk mutation into a success/failure report, matching failures to their input rows",
+      inputSchema: {
+        id: z.string().optional().describe("Bulk operation ID; defaults to the current bulk mutation"),
+        variablesPath: z.string().describe("The variables file the operation was started with (used to show failing input rows)"),
+        format: z.enum(["jsonl", "csv"]).optional().describe("Variables file format (default: from the file extension)"),
+        failedRowsPath: z.string().optional().describe("Write every failing input row to this JSONL file (relative to SHOPIFY_MCP_EXPORT_DIR)"),
+      },
+    },
+    async ({ id, variablesPath, format, failedRowsPath }) => {
+      try {
+        const operation = await getBulkOperation(client, { id, type: "MUTATION" });
+        if (!operation) {
+          return textResult("Error: No bulk mutation found", true);
+        }
+
+        const inputs = await readVariables(variablesPath, format);
+        const outcome = await reportBulkMutation(client, operation, inputs, failedRowsPath);
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(outcome, null, 2) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,63 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { ChangeHistory, undoChange, UNDOABLE_TOOLS } from "../utils/change-history.js";
+import { runWithStore } from "../utils/request-context.js";
+import { errorResult, jsonResult, textResult } from "../utils/tool-factory.js";
+
+export function registerChangeHistoryTools(server: McpServer, client: ShopifyGraphQLClient, history: ChangeHistory) {
+  // List recorded changes
+  server.registerTool(
+    "list_recent_changes",
+    {
+      description: `List recent changes made through ${UNDOABLE_TOOLS.join(", ")}, newest first, with the old and new value of every changed field. Pass a change ID to undo_change to revert it.`,
+      inputSchema: {
+        resource: z.string().optional().describe("Only changes to this resource ID (e.g., 'gid://shopify/Product/123')"),
+        tool: z.string().optional().describe("Only changes made by this tool"),
+        includeUndone: z.boolean().default(false).describe("Include changes that were already undone"),
+        limit: z.number().int().min(1).max(200).default(20).describe("Maximum number of changes to return"),
+      },
+    },
+    async ({ resource, tool, includeUndone, limit }) => {
+      try {
+        const changes = (await history.list())
+          .filter(change => includeUndone || !change.undoneAt)
+          .filter(change => !resource || change.target.id === resource)
+          .filter(change => !tool || change.tool === tool)
+          .slice(0, limit)
+          .map(({ document: _document, variables: _variables, ...change }) => change);
+
+        return jsonResult({ count: changes.length, changes });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Revert a recorded change
+  server.registerTool(
+    "undo_change",
+    {
+      description: "Revert a change listed by list_recent_changes by writing the old field values back. Refuses when the resource was modified after the change.",
+      inputSchema: {
+        changeId: z.string().describe("Change ID from list_recent_changes (e.g., 'chg_1a2b3c4d5e6f')"),
+      },
+    },
+    async ({ changeId }) => {
+      try {
+        const change = await history.get(changeId);
+        if (!change) {
+          return textResult(`Error: Unknown change '${changeId}'`, true);
+        }
+
+        // Undo against the store the change was made in
+        const run = () => undoChange(client, history, change);
+        const outcome = change.store ? await runWithStore(change.store, run) : await run();
+
+        return jsonResult({ changeId, ...outcome }, !outcome.undone);
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
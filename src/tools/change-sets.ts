@@ -0,0 +1,340 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ToolRegistration } from "../utils/tool-registry.js";
+import { currentStore } from "../utils/request-context.js";
+import { errorResult, jsonResult } from "../utils/tool-factory.js";
+import { getToolDefinition } from "../utils/scope-mapper.js";
+import {
+  ChangeSet,
+  ChangeSetStore,
+  consolidateChanges,
+  dryRunPreviews,
+  invokeTool,
+  parseToolArguments,
+  stepsHash,
+  toolCallFailure,
+} from "../utils/change-sets.js";
+
+function summary(changeSet: ChangeSet) {
+  const { steps, ...rest } = changeSet;
+  const counts = { pending: 0, applied: 0, failed: 0 };
+  steps.forEach(step => counts[step.status]++);
+  return { ...rest, steps: steps.length, ...counts };
+}
+
+/**
+ * Change set tools
+ *
+ * `tools` holds the mutation tools as registered (after all middleware), so a
+ * step runs exactly like a direct call of that tool. Tools that require
+ * confirmation can't be staged, and nothing is applied while the server
+ * enforces dry runs.
+ */
+export function registerChangeSetTools(
+  server: McpServer,
+  tools: Map<string, ToolRegistration>,
+  store: ChangeSetStore,
+  confirmTools: Set<string>,
+  dryRun: boolean
+) {
+  const applying = new Set<string>();
+
+  const stageable = (name: string): ToolRegistration => {
+    const tool = tools.get(name);
+    if (!tool || getToolDefinition(name)?.access !== "write") {
+      throw new Error(`'${name}' is not an available mutation tool`);
+    }
+    if (confirmTools.has(name)) {
+      throw new Error(`${name} requires confirmation and can't be part of a change set; call it directly`);
+    }
+    return tool;
+  };
+
+  // Start an empty change set
+  server.registerTool(
+    "create_change_set",
+    {
+      description: "Create a named change set: a batch of mutation tool calls that is reviewed as one diff and applied in order. The plan is saved as a JSON file in the server's data directory.",
+      inputSchema: {
+        name: z.string().describe("Change set name (lowercase letters, digits, '-' and '_'; e.g., 'spring-catalog-migration')"),
+        description: z.string().optional().describe("What the change set is for"),
+      },
+    },
+    async ({ name, description }) => {
+      try {
+        const changeSet = await store.create(name, description, currentStore());
+        return jsonResult({ ...summary(changeSet), file: store.file(name) });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Stage one tool call
+  server.registerTool(
+    "add_change_set_step",
+    {
+      description: "Append a mutation tool call to a change set without running it. The arguments are validated against the tool's input schema now and the step runs only when the change set is applied.",
+      inputSchema: {
+        name: z.string().describe("Change set name"),
+        tool: z.string().describe("Mutation tool to call (e.g., 'update_product', 'add_products_to_collection', 'update_menu')"),
+        arguments: z.record(z.unknown()).default({}).describe("Arguments for the tool, exactly as for a direct call"),
+        note: z.string().optional().describe("Why this step is part of the change set"),
+      },
+    },
+    async ({ name, tool: toolName, arguments: args, note }) => {
+      try {
+        const tool = stageable(toolName);
+        const changeSet = await store.get(name);
+        if (!changeSet) {
+          throw new Error(`Unknown change set '${name}'`);
+        }
+        if (changeSet.status !== "draft") {
+          throw new Error(`Change set '${name}' was already applied (${changeSet.status}); create a new one`);
+        }
+
+        // Steps run against the change set's store unless they name another
+        const stepArgs = { ...args };
+        if (changeSet.store && tool.config.inputSchema?.store && stepArgs.store === undefined) {
+          stepArgs.store = changeSet.store;
+        }
+        if (stepArgs.dryRun !== undefined) {
+          throw new Error("Don't pass dryRun to a step; use review_change_set to preview the change set");
+        }
+        parseToolArguments(tool, stepArgs);
+
+        const updated = await store.update(name, (current) => {
+          current.steps.push({ tool: toolName, arguments: stepArgs, ...(note ? { note } : {}), status: "pending" });
+          delete current.reviewedAt;
+          delete current.reviewedHash;
+        });
+        return jsonResult({ ...summary(updated), added: updated.steps.length });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Drop a staged step
+  server.registerTool(
+    "remove_change_set_step",
+    {
+      description: "Remove a step from a change set that hasn't been applied yet",
+      inputSchema: {
+        name: z.string().describe("Change set name"),
+        step: z.number().int().min(1).describe("Step number as shown by review_change_set (1-based)"),
+      },
+    },
+    async ({ name, step }) => {
+      try {
+        const updated = await store.update(name, (current) => {
+          if (current.status !== "draft") {
+            throw new Error(`Change set '${name}' was already applied (${current.status})`);
+          }
+          if (step > current.steps.length) {
+            throw new Error(`Change set '${name}' has ${current.steps.length} steps`);
+          }
+          current.steps.splice(step - 1, 1);
+          delete current.reviewedAt;
+          delete current.reviewedHash;
+        });
+        return jsonResult(summary(updated));
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // List change sets or show one
+  server.registerTool(
+    "list_change_sets",
+    {
+      description: "List saved change sets with their status and step counts, or show every step of one change set",
+      inputSchema: {
+        name: z.string().optional().describe("Show this change set in full"),
+      },
+    },
+    async ({ name }) => {
+      try {
+        if (name) {
+          const changeSet = await store.get(name);
+          return changeSet ? jsonResult({ ...changeSet, file: store.file(name) }) : errorResult(`Unknown change set '${name}'`);
+        }
+        const changeSets = await store.list();
+        return jsonResult({ directory: store.dir, changeSets: changeSets.map(summary) });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Preview every step and consolidate the diff
+  server.registerTool(
+    "review_change_set",
+    {
+      description: "Dry-run every pending step of a change set and return the consolidated field diff per resource. Nothing is sent to the store. A change set must be reviewed after its last edit before it can be applied.",
+      inputSchema: {
+        name: z.string().describe("Change set name"),
+      },
+    },
+    async ({ name }, extra) => {
+      try {
+        const changeSet = await store.get(name);
+        if (!changeSet) {
+          throw new Error(`Unknown change set '${name}'`);
+        }
+
+        const steps = [...changeSet.steps];
+        for (const [index, step] of steps.entries()) {
+          if (step.status === "applied") continue;
+
+          const tool = tools.get(step.tool);
+          const next = { ...step, preview: undefined, previewError: undefined } as typeof step;
+          try {
+            if (!tool?.config.inputSchema?.dryRun) {
+              throw new Error(`${step.tool} is not available or doesn't support dry runs`);
+            }
+            const result = await invokeTool(tool, parseToolArguments(tool, { ...step.arguments, dryRun: true }), extra);
+            const previews = dryRunPreviews(result);
+            if (previews) {
+              next.preview = previews;
+            } else {
+              next.previewError = toolCallFailure(result) ?? "The tool finished without reaching a mutation";
+            }
+          } catch (error) {
+            next.previewError = error instanceof Error ? error.message : String(error);
+          }
+          steps[index] = next;
+        }
+
+        const updated = await store.update(name, (current) => {
+          current.steps = steps;
+          current.reviewedAt = new Date().toISOString();
+          current.reviewedHash = stepsHash(steps);
+        });
+
+        return jsonResult({
+          ...summary(updated),
+          file: store.file(name),
+          changes: consolidateChanges(updated.steps.filter(step => step.status !== "applied")),
+          steps: updated.steps.map((step, index) => ({
+            step: index + 1,
+            tool: step.tool,
+            note: step.note,
+            status: step.status,
+            targets: step.preview?.map(preview => preview.target?.id ?? null),
+            notCompared: step.preview?.flatMap(preview => preview.notCompared),
+            previewError: step.previewError,
+          })),
+          message: "Review only: nothing was sent. Steps are previewed independently against the current store state.",
+        });
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // Run the steps in order
+  server.registerTool(
+    "apply_change_set",
+    {
+      description: "Apply a reviewed change set by calling each pending step's tool in order. With 'stop_on_error' the first failing step stops the run; with 'continue' the remaining steps still run. Applying again retries the steps that failed or didn't run.",
+      inputSchema: {
+        name: z.string().describe("Change set name"),
+        mode: z.enum(["stop_on_error", "continue"]).default("stop_on_error").describe("What to do when a step fails"),
+      },
+    },
+    async ({ name, mode }, extra) => {
+      if (dryRun) {
+        return errorResult("Dry run is enforced by the server (SHOPIFY_MCP_DRY_RUN); change sets can be reviewed but not applied");
+      }
+      if (applying.has(name)) {
+        return errorResult(`Change set '${name}' is already being applied`);
+      }
+      applying.add(name);
+
+      try {
+        const changeSet = await store.get(name);
+        if (!changeSet) {
+          throw new Error(`Unknown change set '${name}'`);
+        }
+        if (!changeSet.reviewedAt || changeSet.reviewedHash !== stepsHash(changeSet.steps)) {
+          throw new Error(`Change set '${name}' changed since its last review; call review_change_set first`);
+        }
+
+        let stopped = false;
+        for (const [index, step] of changeSet.steps.entries()) {
+          if (step.status === "applied") continue;
+          if (stopped) break;
+
+          let failure: string | undefined;
+          let output = "";
+          try {
+            const tool = stageable(step.tool);
+            const result = await invokeTool(tool, parseToolArguments(tool, step.arguments), extra);
+            const text = result.content.find(item => item.type === "text");
+            output = text && text.type === "text" ? text.text : "";
+            failure = toolCallFailure(result);
+          } catch (error) {
+            failure = error instanceof Error ? error.message : String(error);
+          }
+
+          // Saved after every step so an interrupted run can be resumed
+          await store.update(name, (current) => {
+            current.steps[index] = {
+              ...current.steps[index],
+              status: failure ? "failed" : "applied",
+              result: output || undefined,
+              error: failure,
+              ...(failure ? {} : { appliedAt: new Date().toISOString() }),
+            };
+          });
+          stopped = !!failure && mode === "stop_on_error";
+        }
+
+        const updated = await store.update(name, (current) => {
+          const applied = current.steps.filter(step => step.status === "applied").length;
+          current.status = applied === current.steps.length
+            ? "applied"
+            : applied > 0 ? "partially_applied" : "failed";
+        });
+
+        const body = {
+          ...summary(updated),
+          mode,
+          file: store.file(name),
+          steps: updated.steps.map((step, index) => ({
+            step: index + 1,
+            tool: step.tool,
+            status: step.status,
+            ...(step.error ? { error: step.error } : {}),
+          })),
+        };
+        return jsonResult(body, updated.status !== "applied");
+      } catch (error) {
+        return errorResult(error);
+      } finally {
+        applying.delete(name);
+      }
+    }
+  );
+
+  // Remove a change set file
+  server.registerTool(
+    "delete_change_set",
+    {
+      description: "Delete a saved change set. Changes it already applied stay in the store.",
+      inputSchema: {
+        name: z.string().describe("Change set name"),
+      },
+    },
+    async ({ name }) => {
+      try {
+        const deleted = await store.delete(name);
+        return deleted ? jsonResult({ deleted: name }) : errorResult(`Unknown change set '${name}'`);
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
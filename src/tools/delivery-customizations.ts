@@ -1,87 +1,22 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { defineMutationTool, defineQueryTool } from "../utils/tool-factory.js";
 
 export function registerDeliveryCustomizationTools(server: McpServer, client: ShopifyGraphQLClient) {
   // Get Delivery Customizations
-  server.registerTool(
-    "get_delivery_customizations",
-    {
-      description: "Fetch delivery customization rules for the store",
-      inputSchema: {
-        first: z.number().min(1).max(250).optional().describe("Number of customizations to fetch (1-250, default: 50)"),
-        after: z.string().optional().describe("Cursor for pagination"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_delivery_customizations",
+    description: "Fetch delivery customization rules for the store",
+    inputSchema: {
+      first: z.number().min(1).max(250).optional().describe("Number of customizations to fetch (1-250, default: 50)"),
+      after: z.string().optional().describe("Cursor for pagination"),
     },
-    async ({ first = 50, after }) => {
-      const query = `
-        query GetDeliveryCustomizations($first: Int!, $after: String) {
-          deliveryCustomizations(first: $first, after: $after) {
-            edges {
-              node {
-                id
-                functionId
-                metafields(first: 10) {
-                  edges {
-                    node {
-                      id
-                      namespace
-                      key
-                      value
-                    }
-                  }
-                }
-              }
-              cursor
-            }
-            pageInfo {
-              hasNextPage
-              hasPreviousPage
-            }
-          }
-        }
-      `;
-
-      try {
-        const result = await client.execute(query, { first, after });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
-      }
-    }
-  );
-
-  // Create Delivery Customization
-  server.registerTool(
-    "create_delivery_customization",
-    {
-      description: "Create a new delivery customization rule using a Shopify Function",
-      inputSchema: {
-        functionId: z.string().describe("ID of the delivery customization function to use"),
-        metafields: z.array(z.object({
-          namespace: z.string().describe("Metafield namespace"),
-          key: z.string().describe("Metafield key"),
-          value: z.string().describe("Metafield value"),
-          type: z.string().describe("Metafield type"),
-        })).optional().describe("Configuration metafields for the function"),
-      },
-    },
-    async ({ functionId, metafields }) => {
-      const mutation = `
-        mutation DeliveryCustomizationCreate($input: DeliveryCustomizationInput!) {
-          deliveryCustomizationCreate(input: $input) {
-            deliveryCustomization {
+    document: `
+      query GetDeliveryCustomizations($first: Int!, $after: String) {
+        deliveryCustomizations(first: $first, after: $after) {
+          edges {
+            node {
               id
               functionId
               metafields(first: 10) {
@@ -95,144 +30,130 @@ export function registerDeliveryCustomizationTools(server: McpServer, client: Sh
                 }
               }
             }
-            userErrors {
-              field
-              message
-            }
+            cursor
+          }
+          pageInfo {
+            hasNextPage
+            hasPreviousPage
+            endCursor
           }
         }
-      `;
+      }
+    `,
+    paginate: ["deliveryCustomizations"],
+    variables: ({ first = 50, after }) => ({ first, after }),
+  });
 
+  // Create Delivery Customization
+  defineMutationTool(server, client, {
+    name: "create_delivery_customization",
+    description: "Create a new delivery customization rule using a Shopify Function",
+    inputSchema: {
+      functionId: z.string().describe("ID of the delivery customization function to use"),
+      metafields: z.array(z.object({
+        namespace: z.string().describe("Metafield namespace"),
+        key: z.string().describe("Metafield key"),
+        value: z.string().describe("Metafield value"),
+        type: z.string().describe("Metafield type"),
+      })).optional().describe("Configuration metafields for the function"),
+    },
+    document: `
+      mutation DeliveryCustomizationCreate($input: DeliveryCustomizationInput!) {
+        deliveryCustomizationCreate(input: $input) {
+          deliveryCustomization {
+            id
+            functionId
+            metafields(first: 10) {
+              edges {
+                node {
+                  id
+                  namespace
+                  key
+                  value
+                }
+              }
+            }
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    variables: ({ functionId, metafields }) => {
       const input: Record<string, unknown> = { functionId };
       if (metafields && metafields.length > 0) {
         input.metafields = metafields;
       }
-
-      try {
-        const result = await client.execute(mutation, { input });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
-      }
-    }
-  );
+      return { input };
+    },
+  });
 
   // Update Delivery Customization
-  server.registerTool(
-    "update_delivery_customization",
-    {
-      description: "Update an existing delivery customization rule",
-      inputSchema: {
-        id: z.string().describe("Delivery Customization ID"),
-        metafields: z.array(z.object({
-          namespace: z.string().describe("Metafield namespace"),
-          key: z.string().describe("Metafield key"),
-          value: z.string().describe("Metafield value"),
-          type: z.string().describe("Metafield type"),
-        })).optional().describe("Updated configuration metafields"),
-      },
+  defineMutationTool(server, client, {
+    name: "update_delivery_customization",
+    description: "Update an existing delivery customization rule",
+    inputSchema: {
+      id: z.string().describe("Delivery Customization ID"),
+      metafields: z.array(z.object({
+        namespace: z.string().describe("Metafield namespace"),
+        key: z.string().describe("Metafield key"),
+        value: z.string().describe("Metafield value"),
+        type: z.string().describe("Metafield type"),
+      })).optional().describe("Updated configuration metafields"),
     },
-    async ({ id, metafields }) => {
-      const mutation = `
-        mutation DeliveryCustomizationUpdate($id: ID!, $input: DeliveryCustomizationInput!) {
-          deliveryCustomizationUpdate(id: $id, input: $input) {
-            deliveryCustomization {
-              id
-              functionId
-              metafields(first: 10) {
-                edges {
-                  node {
-                    id
-                    namespace
-                    key
-                    value
-                  }
+    document: `
+      mutation DeliveryCustomizationUpdate($id: ID!, $input: DeliveryCustomizationInput!) {
+        deliveryCustomizationUpdate(id: $id, input: $input) {
+          deliveryCustomization {
+            id
+            functionId
+            metafields(first: 10) {
+              edges {
+                node {
+                  id
+                  namespace
+                  key
+                  value
                 }
               }
             }
-            userErrors {
-              field
-              message
-            }
+          }
+          userErrors {
+            field
+            message
           }
         }
-      `;
-
+      }
+    `,
+    variables: ({ id, metafields }) => {
       const input: Record<string, unknown> = {};
       if (metafields && metafields.length > 0) {
         input.metafields = metafields;
       }
-
-      try {
-        const result = await client.execute(mutation, { id, input });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
-      }
-    }
-  );
+      return { id, input };
+    },
+  });
 
   // Delete Delivery Customization
-  server.registerTool(
-    "delete_delivery_customization",
-    {
-      description: "Delete a delivery customization rule",
-      inputSchema: {
-        id: z.string().describe("Delivery Customization ID to delete"),
-      },
+  defineMutationTool(server, client, {
+    name: "delete_delivery_customization",
+    description: "Delete a delivery customization rule",
+    inputSchema: {
+      id: z.string().describe("Delivery Customization ID to delete"),
     },
-    async ({ id }) => {
-      const mutation = `
-        mutation DeliveryCustomizationDelete($id: ID!) {
-          deliveryCustomizationDelete(id: $id) {
-            deletedDeliveryCustomizationId
-            userErrors {
-              field
-              message
-            }
+    document: `
+      mutation DeliveryCustomizationDelete($id: ID!) {
+        deliveryCustomizationDelete(id: $id) {
+          deletedDeliveryCustomizationId
+          userErrors {
+            field
+            message
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(mutation, { id });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: ({ id }) => ({ id }),
+  });
 }
@@ -0,0 +1,136 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { collectUserErrors } from "../utils/bulk-operations.js";
+import { errorResult, textResult } from "../utils/tool-factory.js";
+import { previewMutation } from "../utils/dry-run.js";
+import { runAsDryRun } from "../utils/request-context.js";
+import {
+  allowedMutationsFromEnv,
+  estimateQueryCost,
+  loadAdminSchema,
+  operationsOf,
+  rootFieldNames,
+  validateDocument,
+} from "../utils/admin-schema.js";
+
+/**
+ * Raw GraphQL access for fields no module covers
+ *
+ * Environment overrides:
+ *   SHOPIFY_MCP_GRAPHQL_MUTATIONS=productUpdate,tagsAdd   # Mutation fields execute_graphql and run_bulk_mutation may call (default: none)
+ *   SHOPIFY_MCP_GRAPHQL_MAX_COST=1000                     # Highest estimated query cost accepted
+ */
+
+function settingsFromEnv(): { allowedMutations: Set<string>; maxCost: number } {
+  const maxCost = Number(process.env.SHOPIFY_MCP_GRAPHQL_MAX_COST ?? 1000);
+  if (!Number.isFinite(maxCost) || maxCost <= 0) {
+    console.error(`[WARN] Ignoring invalid SHOPIFY_MCP_GRAPHQL_MAX_COST: ${process.env.SHOPIFY_MCP_GRAPHQL_MAX_COST}`);
+  }
+
+  return {
+    allowedMutations: allowedMutationsFromEnv(),
+    maxCost: Number.isFinite(maxCost) && maxCost > 0 ? maxCost : 1000,
+  };
+}
+
+function refusal(message: string, details: Record<string, unknown> = {}) {
+  return textResult(JSON.stringify({ error: message, ...details }, null, 2), true);
+}
+
+export function registerGraphQLTools(server: McpServer, client: ShopifyGraphQLClient, settings: { dryRun: boolean }) {
+  const { allowedMutations, maxCost } = settingsFromEnv();
+  const mutationNote = allowedMutations.size > 0
+    ? `Mutations are limited to: ${[...allowedMutations].join(", ")}.`
+    : "Mutations are not allowed.";
+
+  // Run an arbitrary Admin API document
+  server.registerTool(
+    "execute_graphql",
+    {
+      description: `Run a GraphQL document against the Shopify Admin API for fields no other tool covers. The document is validated against the bundled schema of the store's API version and rejected when its estimated cost exceeds ${maxCost}. ${mutationNote} Returns the data together with the estimated and actual query cost.`,
+      inputSchema: {
+        document: z.string().describe("GraphQL document with exactly one operation"),
+        variables: z.record(z.unknown()).optional().describe("Variables for the operation"),
+        dryRun: z.boolean().optional().describe(
+          "For mutations: preview the mutation (current state and field diff) without sending it. Always on with SHOPIFY_MCP_DRY_RUN"
+        ),
+      },
+      annotations: { readOnlyHint: allowedMutations.size === 0 },
+    },
+    async ({ document, variables = {}, dryRun }) => {
+      try {
+        const requested = client.getApiVersion().requested;
+        const { version, schema, exact } = loadAdminSchema(requested);
+        const schemaVersion = exact ? version : `${version} (no snapshot for ${requested ?? "the configured URL"})`;
+
+        const validation = validateDocument(schema, document);
+        if (!validation.ast) {
+          return refusal("Document is not valid for the Admin API", { schemaVersion, errors: validation.errors });
+        }
+
+        const operations = operationsOf(validation.ast);
+        if (operations.length !== 1) {
+          return refusal(`Send exactly one operation (found ${operations.length})`);
+        }
+        const [operation] = operations;
+
+        if (operation.operation === "subscription") {
+          return refusal("Subscriptions are not supported");
+        }
+
+        if (operation.operation === "mutation") {
+          if (client.isReadOnly()) {
+            return refusal("Read-only mode: mutations are disabled (SHOPIFY_MCP_READ_ONLY is set)");
+          }
+          const denied = rootFieldNames(validation.ast, operation).filter(name => !allowedMutations.has(name));
+          if (denied.length > 0) {
+            return refusal(`Mutation not allowed: ${denied.join(", ")}`, {
+              allowedMutations: [...allowedMutations],
+              hint: "Use the dedicated tool for this mutation, or add it to SHOPIFY_MCP_GRAPHQL_MUTATIONS",
+            });
+          }
+        }
+
+        const estimatedCost = estimateQueryCost(schema, validation.ast, operation, variables);
+        if (estimatedCost > maxCost) {
+          return refusal(`Estimated query cost ${estimatedCost} exceeds the limit of ${maxCost}`, {
+            hint: "Request fewer items (first/last) or fewer nested connections",
+          });
+        }
+
+        if (operation.operation === "mutation" && (dryRun || settings.dryRun)) {
+          // The client records the mutation and throws instead of sending it
+          const { mutations } = await runAsDryRun(() => client.execute(document, variables).catch(() => undefined));
+          const previews = await Promise.all(mutations.map(mutation => previewMutation(client, mutation)));
+          return textResult(
+            JSON.stringify(
+              { dryRun: true, message: "Dry run: the mutation below was not sent", mutations: previews, cost: { estimated: estimatedCost } },
+              null,
+              2
+            )
+          );
+        }
+
+        const result = await client.execute(document, variables);
+        const failed = !!result.errors || (operation.operation === "mutation" && collectUserErrors(result.data).length > 0);
+
+        return textResult(
+          JSON.stringify(
+            {
+              data: result.data ?? null,
+              ...(result.errors ? { errors: result.errors } : {}),
+              cost: { estimated: estimatedCost, ...result.extensions?.cost },
+              schemaVersion,
+            },
+            null,
+            2
+          ),
+          failed
+        );
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+}
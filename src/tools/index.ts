@@ -1,6 +1,29 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
-import { getEnabledCategories, getEnabledToolCount, getCategoryConfig } from "../config/tool-categories.js";
+import { readOnlyFromEnv, ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { ALL_CATEGORIES, getEnabledCategories, getEnabledToolCount, getCategoryConfig, getCategoryToolCount } from "../config/tool-categories.js";
+import { loadStoreConfiguration, StoreConfiguration } from "../config/stores.js";
+import { createToolRegistry, ToolMiddleware, ToolRegistration } from "../utils/tool-registry.js";
+import { requestStatsMiddleware } from "../utils/request-context.js";
+import { dryRunFromEnv, dryRunMiddleware } from "../utils/dry-run.js";
+import { ConfirmationSettings, confirmationMiddleware, confirmationSettingsFromEnv } from "../utils/confirmation.js";
+import { journalMiddleware, MutationJournal } from "../utils/journal.js";
+import { ChangeHistory, changeHistoryMiddleware } from "../utils/change-history.js";
+import { ChangeSetStore } from "../utils/change-sets.js";
+import { ApiDeprecationLog } from "../utils/api-deprecations.js";
+import { ToolOverrides, toolOverridesMiddleware } from "../utils/tool-overrides.js";
+import { ToolFilter, toolFilterMiddleware } from "../utils/tool-filter.js";
+import { ConfigFile, configuredStores } from "../config/config-file.js";
+import { ShopifyClientPool, StoreRoutingClient, storeSelectorMiddleware } from "../utils/client-pool.js";
+import {
+  combinedScopes,
+  fetchGrantedScopes,
+  readOnlyMiddleware,
+  ScopeMode,
+  scopeFilterMiddleware,
+  scopeGap,
+  scopeModeFromEnv,
+  storeScopeMiddleware,
+} from "../utils/scope-mapper.js";
 
 // Import all tool registration functions
 import { registerOrderTools } from "./orders.js";
@@ -61,9 +84,17 @@ import { registerShippingTools } from "./shipping.js";
 import { registerReportTools } from "./reports.js";
 import { registerResourceFeedbackTools } from "./resource-feedbacks.js";
 import { registerProductListingTools } from "./product-listings.js";
+import { registerBulkOperationTools } from "./bulk-operations.js";
+import { registerActivityLogTools } from "./activity-log.js";
+import { registerChangeHistoryTools } from "./change-history.js";
+import { registerChangeSetTools } from "./change-sets.js";
+import { registerApiDeprecationTools } from "./api-deprecations.js";
+import { registerGraphQLTools } from "./graphql.js";
+import { registerToolDiscoveryTools, ToolCatalogueEntry } from "./tool-discovery.js";
 
-// Map of module names to their registration functions
-const TOOL_REGISTRARS: Record<string, (server: McpServer, client: ShopifyGraphQLClient) => void> = {
+// Map of module names to their registration functions; registrars that
+// depend on server settings read them from the tool context
+const TOOL_REGISTRARS: Record<string, (server: McpServer, client: ShopifyGraphQLClient, context: ToolContext) => void> = {
   'shop': registerShopTools,
   'products': registerProductTools,
   'orders': registerOrderTools,
@@ -122,9 +153,45 @@ const TOOL_REGISTRARS: Record<string, (server: McpServer, client: ShopifyGraphQL
   'inventory-shipments': registerInventoryShipmentTools,
   'inventory-transfers': registerInventoryTransferTools,
   'packing-slip-templates': registerPackingSlipTemplateTools,
+  'bulk-operations': registerBulkOperationTools,
+  'graphql': registerGraphQLTools,
 };
 
-export function registerTools(server: McpServer): void {
+/**
+ * Everything registerTools needs that should exist once per process: the
+ * enabled categories and the store clients (with their cost buckets), so
+ * every HTTP session shares the same throttling state
+ */
+export interface ToolContext {
+  enabledCategories: string[];
+  enabledModules: Set<string>;
+  pool?: ShopifyClientPool;
+  client?: ShopifyGraphQLClient;
+  storeError?: string;
+  /** SHOPIFY_MCP_READ_ONLY: mutation tools are not registered */
+  readOnly: boolean;
+  /** SHOPIFY_MCP_DRY_RUN: every mutation tool call is a dry run */
+  dryRun: boolean;
+  /** Destructive tools that need a confirmation token or elicitation */
+  confirmation: ConfirmationSettings;
+  /** Local record of every mutation sent; undefined when disabled */
+  journal?: MutationJournal;
+  /** Pre-images of reversible updates, for undo_change */
+  changeHistory: ChangeHistory;
+  /** Planned batches of mutation tool calls */
+  changeSets: ChangeSetStore;
+  /** Deprecated Admin API fields the tools used since startup */
+  deprecations: ApiDeprecationLog;
+  scopeMode: ScopeMode;
+  /** Scopes granted to each store's token, or why they couldn't be read */
+  accessScopes: Map<string, { granted?: Set<string>; error?: string }>;
+  /** Replaced descriptions from the config file */
+  toolOverrides: ToolOverrides;
+  /** ENABLED_TOOLS/DISABLED_TOOLS on top of the enabled categories */
+  toolFilter: ToolFilter;
+}
+
+export async function createToolContext(config?: ConfigFile): Promise<ToolContext> {
   // Get enabled categories from environment
   const enabledCategories = getEnabledCategories();
   const enabledModules = new Set<string>();
@@ -137,29 +204,156 @@ export function registerTools(server: McpServer): void {
     }
   }
 
+  const toolFilter = ToolFilter.fromEnv(enabledModules);
+
   // Log configuration
   console.error(`[INFO] Enabled tool categories: ${enabledCategories.length > 0 ? enabledCategories.join(', ') : 'none'}`);
-  console.error(`[INFO] Estimated tool count: ${getEnabledToolCount(enabledCategories)}`);
+  if (toolFilter.enabled.length > 0) {
+    console.error(`[INFO] Enabled tools: ${toolFilter.enabled.join(', ')}`);
+  }
+  if (toolFilter.disabled.length > 0) {
+    console.error(`[INFO] Disabled tools: ${toolFilter.disabled.join(', ')}`);
+  }
+  console.error(`[INFO] Tools in enabled categories: ${getEnabledToolCount(enabledCategories)}`);
   
   if (enabledCategories.length > 0) {
     const envValue = process.env.ENABLED_TOOL_CATEGORIES;
     if (!envValue) {
-      console.error(`[INFO] Set ENABLED_TOOL_CATEGORIES=essential for ~35 tools, or =all for all tools`);
+      console.error(`[INFO] Set ENABLED_TOOL_CATEGORIES=essential for ${getCategoryToolCount('essential')} tools, or =all for all tools`);
     }
   }
 
+  // Load store profiles; one client per store lives in the pool
+  let stores: StoreConfiguration = { profiles: [], defaultStore: "" };
+  let storeError: string | undefined;
+
+  try {
+    stores = loadStoreConfiguration(configuredStores(config));
+  } catch (error) {
+    storeError = error instanceof Error ? error.message : String(error);
+    console.error("[ERROR] Failed to load store profiles:", storeError);
+  }
+
+  const deprecations = new ApiDeprecationLog();
+  const pool = stores.profiles.length > 0 ? new ShopifyClientPool(stores, { deprecations }) : undefined;
+  const client = pool && pool.size > 1 ? new StoreRoutingClient(pool) : pool?.get();
+
+  if (pool) {
+    console.error(`[INFO] Store profiles: ${pool.names().join(", ")} (default: ${pool.defaultStore})`);
+  }
+
+  const readOnly = readOnlyFromEnv();
+  if (readOnly) {
+    console.error("[INFO] Read-only mode: mutation tools are not registered and mutations are refused");
+  }
+
+  const dryRun = dryRunFromEnv();
+  if (dryRun) {
+    console.error("[INFO] Dry-run mode: mutation tools return a preview and never send the mutation");
+  }
+
+  const confirmation = confirmationSettingsFromEnv();
+  const journal = MutationJournal.fromEnv();
+  const changeHistory = ChangeHistory.fromEnv();
+  const changeSets = ChangeSetStore.fromEnv();
+  if (journal) {
+    console.error(`[INFO] Mutation journal: ${journal.file}`);
+  }
+
+  if (toolFilter.modules().size === 0) {
+    console.error("[WARN] No tool categories enabled. Only health_check, list_stores, get_mcp_activity_log, get_api_deprecations and the tool discovery tools available.");
+  } else if (!client) {
+    console.error("Failed to initialize ShopifyGraphQLClient: no store profiles configured");
+    console.error("Make sure environment variables are set: SHOPIFY_ACCESS_TOKEN, SHOPIFY_STORE_URL, SHOPIFY_STORE_API_URL or SHOPIFY_API_VERSION (or configure store profiles)");
+  }
+
+  // Look up the scopes each token was actually granted
+  const scopeMode = scopeModeFromEnv();
+  const accessScopes: ToolContext["accessScopes"] = new Map();
+
+  if (pool && scopeMode !== "off") {
+    await Promise.all(pool.names().map(async (name) => {
+      try {
+        accessScopes.set(name, { granted: await fetchGrantedScopes(pool.get(name)) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        accessScopes.set(name, { error: message });
+        console.error(`[WARN] Could not read access scopes for store '${name}', registering all tools:`, message);
+      }
+    }));
+
+    for (const [name, { granted }] of accessScopes) {
+      const gap = granted ? scopeGap(granted, toolFilter.modules()) : [];
+      if (gap.length > 0) {
+        const affected = new Set(gap.flatMap(entry => entry.tools)).size;
+        console.error(
+          `[WARN] Store '${name}' is missing access scopes ${gap.map(entry => entry.scope).join(', ')} ` +
+          `(${affected} tools ${scopeMode === "skip" ? "refused" : "may fail"} on this store)`
+        );
+      }
+    }
+  }
+
+  return {
+    enabledCategories, enabledModules, pool, client, storeError,
+    readOnly, dryRun, confirmation, journal, changeHistory, changeSets, deprecations, scopeMode, accessScopes,
+    toolOverrides: config?.tools ?? {},
+    toolFilter,
+  };
+}
+
+/**
+ * Register every enabled tool on `server`; returns the names of the tools
+ * that made it through the middleware
+ */
+export function registerTools(server: McpServer, context: ToolContext): string[] {
+  const {
+    enabledCategories, pool, client, storeError,
+    readOnly, dryRun, confirmation, journal, changeHistory, changeSets, deprecations, scopeMode, accessScopes, toolOverrides,
+  } = context;
+  // Categories enabled at runtime only apply to this server
+  const toolFilter = context.toolFilter.copy();
+
+  // Registrars see a wrapped server so every tool gets the shared middleware
+  const middleware: ToolMiddleware[] = [
+    toolFilterMiddleware(toolFilter),
+    toolOverridesMiddleware(toolOverrides),
+    requestStatsMiddleware,
+  ];
+  if (readOnly) {
+    middleware.push(readOnlyMiddleware);
+  }
+  const grantedScopes = combinedScopes(accessScopes);
+  if (grantedScopes && scopeMode !== "off") {
+    middleware.push(scopeFilterMiddleware(grantedScopes, scopeMode));
+  }
+  if (client) {
+    middleware.push(changeHistoryMiddleware(client, changeHistory));
+  }
+  if (journal) {
+    middleware.push(journalMiddleware(journal));
+  }
+  if (client) {
+    middleware.push(dryRunMiddleware(client, dryRun));
+    middleware.push(confirmationMiddleware(server, client, confirmation, dryRun));
+  }
+  if (pool && pool.size > 1) {
+    if (scopeMode === "skip") {
+      middleware.push(storeScopeMiddleware(accessScopes, pool.defaultStore));
+    }
+    middleware.push(storeSelectorMiddleware(pool));
+  }
+  const registered = new Map<string, ToolRegistration>();
+  const registry = createToolRegistry(server, middleware, registered);
+
   // Always register health check
-  server.registerTool(
+  registry.registerTool(
     "health_check",
     {
       description: "Check if the Shopify GraphQL MCP server is running and configured",
     },
     async () => {
-      const token = process.env.SHOPIFY_ACCESS_TOKEN;
-      const storeUrl = process.env.SHOPIFY_STORE_URL;
-      const apiUrl = process.env.SHOPIFY_STORE_API_URL;
-      
-      const configured = !!(token && storeUrl && apiUrl);
+      const configured = !!client;
       
       return {
         content: [
@@ -170,8 +364,24 @@ export function registerTools(server: McpServer): void {
                 status: configured ? "healthy" : "not_configured",
                 message: configured
                   ? "Server is running and configured"
-                  : "Server is running but missing required environment variables: SHOPIFY_ACCESS_TOKEN, SHOPIFY_STORE_URL, SHOPIFY_STORE_API_URL",
+                  : storeError ?? "Server is running but missing required environment variables: SHOPIFY_ACCESS_TOKEN, SHOPIFY_STORE_URL, SHOPIFY_STORE_API_URL or SHOPIFY_API_VERSION",
                 enabledCategories,
+                enabledTools: toolFilter.enabled,
+                disabledTools: toolFilter.disabled,
+                readOnly,
+                dryRun,
+                confirmationRequired: [...confirmation.tools],
+                stores: pool?.names() ?? [],
+                accessScopes: Object.fromEntries(
+                  [...accessScopes].map(([name, { granted, error }]) => [
+                    name,
+                    granted
+                      ? { granted: [...granted].sort(), missing: scopeGap(granted, toolFilter.modules()) }
+                      : { error },
+                  ])
+                ),
+                apiVersion: client?.getApiVersion() ?? null,
+                throttleStatus: client?.getThrottleStatus() ?? null,
                 timestamp: new Date().toISOString(),
               },
               null,
@@ -183,38 +393,147 @@ export function registerTools(server: McpServer): void {
     }
   );
 
-  // Skip tool registration if no categories enabled
-  if (enabledCategories.length === 0) {
-    console.error("[WARN] No tool categories enabled. Only health_check available.");
-    return;
+  // List configured store profiles (never exposes access tokens)
+  if (toolFilter.allows("list_stores")) {
+    server.registerTool(
+      "list_stores",
+      {
+        description: "List the Shopify store profiles this server can operate on. Pass a profile name as the 'store' argument of any tool to target that shop.",
+      },
+      async () => {
+        const profiles = pool
+          ? pool.names().map(name => {
+              const { storeUrl, apiUrl, apiVersion } = pool.profile(name);
+              return { name, storeUrl, apiUrl, apiVersion, default: name === pool.defaultStore };
+            })
+          : [];
+
+        return {
+          content: [{ type: "text", text: JSON.stringify({ stores: profiles }, null, 2) }],
+        };
+      }
+    );
   }
 
-  let client: ShopifyGraphQLClient;
+  // Local journal of mutations sent through this server
+  registerActivityLogTools(registry, journal);
 
-  try {
-    client = new ShopifyGraphQLClient();
-  } catch (error) {
-    console.error("Failed to initialize ShopifyGraphQLClient:", error instanceof Error ? error.message : String(error));
-    console.error("Make sure environment variables are set: SHOPIFY_ACCESS_TOKEN, SHOPIFY_STORE_URL, SHOPIFY_STORE_API_URL");
-    return;
+  // Deprecated API usage reported by Shopify
+  registerApiDeprecationTools(registry, client, deprecations);
+
+  // Names for the startup log; list_stores is registered directly on the server
+  const changeSetTools = new Map<string, ToolRegistration>();
+  const tools = () => [
+    ...registered.keys(),
+    ...changeSetTools.keys(),
+    ...(toolFilter.allows("list_stores") ? ["list_stores"] : []),
+  ];
+
+  // Without a store there is nothing to call the Shopify tools with
+  if (!client) {
+    return tools();
   }
 
-  // Register enabled tools
-  let registeredCount = 0;
-  
-  for (const moduleName of enabledModules) {
-    const registrar = TOOL_REGISTRARS[moduleName];
-    if (registrar) {
-      try {
-        registrar(server, client);
-        registeredCount++;
-      } catch (error) {
-        console.error(`[ERROR] Failed to register tools for module '${moduleName}':`, error instanceof Error ? error.message : String(error));
+  // A module loaded for a single ENABLED_TOOLS entry may be loaded again for
+  // its whole category; the tools it already registered are skipped
+  const moduleRegistry = createToolRegistry(server, [tool => (registered.has(tool.name) ? null : tool), ...middleware], registered);
+  const loadedModules = new Set<string>();
+  let sharedToolsRegistered = false;
+
+  // Tools that work across modules, registered along with the first module
+  const registerSharedTools = () => {
+    sharedToolsRegistered = true;
+
+    // Undo for reversible updates
+    registerChangeHistoryTools(registry, client, changeHistory);
+
+    // Change sets call the tools registered above, which already carry dry
+    // runs, journaling and change history, so they only get the store argument
+    if (!readOnly) {
+      const changeSetRegistry = createToolRegistry(
+        server,
+        [toolFilterMiddleware(toolFilter), requestStatsMiddleware, ...(pool && pool.size > 1 ? [storeSelectorMiddleware(pool)] : [])],
+        changeSetTools
+      );
+      registerChangeSetTools(changeSetRegistry, registered, changeSets, confirmation.tools, dryRun);
+    }
+  };
+
+  // Register modules on this server; returns how many were loaded
+  const loadModules = (modules: Iterable<string>): number => {
+    let count = 0;
+
+    for (const moduleName of modules) {
+      if (loadedModules.has(moduleName)) continue;
+      const registrar = TOOL_REGISTRARS[moduleName];
+      if (registrar) {
+        try {
+          registrar(moduleRegistry, client, context);
+          loadedModules.add(moduleName);
+          count++;
+        } catch (error) {
+          console.error(`[ERROR] Failed to register tools for module '${moduleName}':`, error instanceof Error ? error.message : String(error));
+        }
+      } else {
+        console.error(`[WARN] No registrar found for module: ${moduleName}`);
       }
-    } else {
-      console.error(`[WARN] No registrar found for module: ${moduleName}`);
     }
+
+    if (count > 0 && !sharedToolsRegistered) {
+      registerSharedTools();
+    }
+    return count;
+  };
+
+  // Categories the client can load later in the session
+  registerToolDiscoveryTools(registry, {
+    catalogue: () => toolCatalogue(server, client, context),
+    isLoaded: name => registered.has(name),
+    loadCategory: (category) => {
+      const config = getCategoryConfig(category);
+      if (!config) {
+        throw new Error(`Unknown tool category: ${category}`);
+      }
+      const before = new Set(tools());
+      toolFilter.enableModules(config.modules);
+      // Modules loaded for single tools now register the rest of theirs
+      config.modules.forEach(module => loadedModules.delete(module));
+      loadModules(config.modules);
+      return tools().filter(name => !before.has(name));
+    },
+  });
+
+  const registeredCount = loadModules(toolFilter.modules());
+  if (registeredCount > 0) {
+    console.error(`[INFO] Successfully registered ${registeredCount} tool modules`);
+  }
+  return tools();
+}
+
+let catalogue: ToolCatalogueEntry[] | undefined;
+
+/**
+ * Every tool the category modules provide, found by running each registrar
+ * against a registry that records the tool and drops it
+ */
+function toolCatalogue(server: McpServer, client: ShopifyGraphQLClient, context: ToolContext): ToolCatalogueEntry[] {
+  if (catalogue) {
+    return catalogue;
+  }
+
+  const entries: ToolCatalogueEntry[] = [];
+  for (const [module, registrar] of Object.entries(TOOL_REGISTRARS)) {
+    const category = ALL_CATEGORIES.find(config => config.modules.includes(module))?.name;
+    registrar(
+      createToolRegistry(server, [(tool) => {
+        entries.push({ name: tool.name, description: tool.config.description ?? "", module, category });
+        return null;
+      }]),
+      client,
+      context
+    );
   }
 
-  console.error(`[INFO] Successfully registered ${registeredCount} tool modules`);
+  catalogue = entries;
+  return catalogue;
 }
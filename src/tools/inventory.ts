@@ -1,169 +1,134 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { defineMutationTool, defineQueryTool } from "../utils/tool-factory.js";
+import { inventoryListOutput } from "../utils/output-schemas.js";
 
 export function registerInventoryTools(server: McpServer, client: ShopifyGraphQLClient) {
   // Get Inventory Levels
-  server.registerTool(
-    "get_inventory",
-    {
-      description: "Fetch inventory levels for products",
-      inputSchema: {
-        locationId: z.string().optional().describe("Filter by location ID"),
-        query: z.string().optional().describe("Filter query"),
-        first: z.number().min(1).max(250).optional().describe("Number of items to fetch (default: 50)"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_inventory",
+    description: "Fetch inventory levels for products",
+    inputSchema: {
+      locationId: z.string().optional().describe("Filter by location ID"),
+      query: z.string().optional().describe("Filter query"),
+      first: z.number().min(1).max(250).optional().describe("Number of items to fetch (default: 50)"),
+      after: z.string().optional().describe("Cursor for pagination"),
     },
-    async ({ locationId, query, first = 50 }) => {
-      const graphqlQuery = `
-        query GetInventory($first: Int!, $query: String) {
-          inventoryItems(first: $first, query: $query) {
-            edges {
-              node {
+    outputSchema: inventoryListOutput,
+    document: `
+      query GetInventory($first: Int!, $after: String, $query: String) {
+        inventoryItems(first: $first, after: $after, query: $query) {
+          edges {
+            node {
+              id
+              sku
+              variant {
                 id
-                sku
-                variant {
+                title
+                product {
                   id
                   title
-                  product {
-                    id
-                    title
-                  }
                 }
-                inventoryLevels(first: 10) {
-                  edges {
-                    node {
+              }
+              inventoryLevels(first: 10) {
+                edges {
+                  node {
+                    id
+                    quantities(names: ["available"]) {
+                      name
+                      quantity
+                    }
+                    location {
                       id
-                      available
-                      location {
-                        id
-                        name
-                      }
+                      name
                     }
                   }
                 }
               }
-              cursor
-            }
-            pageInfo {
-              hasNextPage
             }
+            cursor
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { first, query });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    paginate: ["inventoryItems"],
+    variables: ({ locationId, query, first = 50, after }) => ({ first, after, query }),
+  });
 
   // Adjust Inventory
-  server.registerTool(
-    "adjust_inventory",
-    {
-      description: "Adjust inventory quantities",
-      inputSchema: {
-        inventoryItemId: z.string().describe("Inventory item ID"),
-        locationId: z.string().describe("Location ID"),
-        availableDelta: z.number().describe("Quantity adjustment (positive or negative)"),
-      },
+  defineMutationTool(server, client, {
+    name: "adjust_inventory",
+    description: "Adjust inventory quantities",
+    inputSchema: {
+      inventoryItemId: z.string().describe("Inventory item ID"),
+      locationId: z.string().describe("Location ID"),
+      availableDelta: z.number().describe("Quantity adjustment (positive or negative)"),
     },
-    async ({ inventoryItemId, locationId, availableDelta }) => {
-      const mutation = `
-        mutation InventoryAdjustQuantity($input: InventoryAdjustQuantityInput!) {
-          inventoryAdjustQuantity(input: $input) {
-            inventoryLevel {
+    document: `
+      mutation InventoryAdjustQuantity($input: InventoryAdjustQuantityInput!) {
+        inventoryAdjustQuantity(input: $input) {
+          inventoryLevel {
+            id
+            available
+            location {
               id
-              available
-              location {
-                id
-                name
-              }
-              item {
-                id
-                sku
-              }
+              name
             }
-            userErrors {
-              field
-              message
+            item {
+              id
+              sku
             }
           }
+          userErrors {
+            field
+            message
+          }
         }
-      `;
-
+      }
+    `,
+    variables: ({ inventoryItemId, locationId, availableDelta }) => {
       const input = {
         inventoryLevelId: `gid://shopify/InventoryLevel/${inventoryItemId}?location_id=${locationId}`,
         availableDelta,
       };
-
-      try {
-        const result = await client.execute(mutation, { input });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
-      }
-    }
-  );
+      return { input };
+    },
+  });
 
   // Set Inventory On Hand
-  server.registerTool(
-    "set_inventory",
-    {
-      description: "Set on-hand inventory quantity",
-      inputSchema: {
-        inventoryItemId: z.string().describe("Inventory item ID"),
-        locationId: z.string().describe("Location ID"),
-        quantity: z.number().min(0).describe("New on-hand quantity"),
-      },
+  defineMutationTool(server, client, {
+    name: "set_inventory",
+    description: "Set on-hand inventory quantity",
+    inputSchema: {
+      inventoryItemId: z.string().describe("Inventory item ID"),
+      locationId: z.string().describe("Location ID"),
+      quantity: z.number().min(0).describe("New on-hand quantity"),
     },
-    async ({ inventoryItemId, locationId, quantity }) => {
-      const mutation = `
-        mutation InventorySetOnHand($input: InventorySetOnHandInput!) {
-          inventorySetOnHandQuantities(input: $input) {
-            inventoryLevel {
+    document: `
+      mutation InventorySetOnHand($input: InventorySetOnHandInput!) {
+        inventorySetOnHandQuantities(input: $input) {
+          inventoryLevel {
+            id
+            available
+            onHand
+            location {
               id
-              available
-              onHand
-              location {
-                id
-                name
-              }
-            }
-            userErrors {
-              field
-              message
+              name
             }
           }
+          userErrors {
+            field
+            message
+          }
         }
-      `;
-
+      }
+    `,
+    variables: ({ inventoryItemId, locationId, quantity }) => {
       const input = {
         reason: "correction",
         quantities: [{
@@ -172,24 +137,7 @@ export function registerInventoryTools(server: McpServer, client: ShopifyGraphQL
           quantity,
         }],
       };
-
-      try {
-        const result = await client.execute(mutation, { input });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
-      }
-    }
-  );
+      return { input };
+    },
+  });
 }
@@ -0,0 +1,161 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ALL_CATEGORIES } from "../config/tool-categories.js";
+import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { ApiDeprecationLog } from "../utils/api-deprecations.js";
+import { ChangeHistory } from "../utils/change-history.js";
+import { ChangeSetStore } from "../utils/change-sets.js";
+import { DEFAULT_CONFIRM_TOOLS } from "../utils/confirmation.js";
+import { getToolDefinition, toolDefinitions } from "../utils/scope-mapper.js";
+import { ToolFilter } from "../utils/tool-filter.js";
+import { ToolAccess } from "../types/index.js";
+import { registerTools, ToolContext } from "./index.js";
+
+/**
+ * Manifest of every tool the server can register
+ *
+ * Each module declares its tools, their access and scopes in the scope map;
+ * the manifest registers every module on a default single-store server and
+ * joins those declarations with the descriptions and input schemas clients
+ * receive. Tools registered without a declaration, or declared and never
+ * registered, are reported as problems so the counts can't drift.
+ */
+
+export interface ToolManifestEntry {
+  name: string;
+  /** null for tools that are always registered */
+  category: string | null;
+  module: string;
+  access: ToolAccess;
+  scopes: string[];
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface ToolManifest {
+  categories: { name: string; description: string; modules: string[]; tools: number }[];
+  tools: ToolManifestEntry[];
+  problems: string[];
+}
+
+// Everything enabled, nothing env-dependent: what a default server exposes
+function manifestContext(): ToolContext {
+  const enabledModules = new Set(ALL_CATEGORIES.flatMap(category => category.modules));
+
+  return {
+    enabledCategories: ALL_CATEGORIES.map(category => category.name),
+    enabledModules,
+    client: new ShopifyGraphQLClient({ config: { accessToken: "", storeUrl: "", apiUrl: "" }, readOnly: false, cache: null }),
+    readOnly: false,
+    dryRun: false,
+    confirmation: { tools: new Set(DEFAULT_CONFIRM_TOOLS), ttlMs: 300_000, elicit: true },
+    changeHistory: ChangeHistory.fromEnv(),
+    changeSets: ChangeSetStore.fromEnv(),
+    deprecations: new ApiDeprecationLog(),
+    scopeMode: "off",
+    accessScopes: new Map(),
+    toolOverrides: {},
+    toolFilter: new ToolFilter([], [], enabledModules),
+  };
+}
+
+export async function buildToolManifest(): Promise<ToolManifest> {
+  const server = new McpServer({ name: "shopify-graphql-mcp", version: "1.0.0" });
+  const registered = new Set(registerTools(server, manifestContext()));
+
+  // List through a client so each input schema is the JSON Schema clients see
+  const client = new Client({ name: "shopify-graphql-mcp-manifest", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  const { tools: listed } = await client.listTools();
+  await client.close();
+  await server.close();
+
+  const problems: string[] = [];
+  const tools: ToolManifestEntry[] = [];
+
+  for (const tool of listed) {
+    const definition = getToolDefinition(tool.name);
+    if (!definition) {
+      problems.push(`${tool.name}: registered but not declared in the scope map`);
+      continue;
+    }
+    tools.push({
+      name: tool.name,
+      category: ALL_CATEGORIES.find(category => category.modules.includes(definition.module))?.name ?? null,
+      module: definition.module,
+      access: definition.access,
+      scopes: definition.scopes,
+      description: tool.description ?? "",
+      inputSchema: tool.inputSchema,
+    });
+  }
+  for (const definition of toolDefinitions) {
+    if (!registered.has(definition.name)) {
+      problems.push(`${definition.name}: declared for module '${definition.module}' but not registered`);
+    }
+  }
+
+  const order = (category: string | null) => (category ? ALL_CATEGORIES.findIndex(config => config.name === category) : ALL_CATEGORIES.length);
+  tools.sort((a, b) => order(a.category) - order(b.category) || a.name.localeCompare(b.name));
+
+  return {
+    categories: ALL_CATEGORIES.map(category => ({
+      name: category.name,
+      description: category.description,
+      modules: category.modules,
+      tools: tools.filter(tool => tool.category === category.name).length,
+    })),
+    tools,
+    problems,
+  };
+}
+
+const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+
+// `name` for required arguments, `name?` for optional ones
+function argumentList(schema: Record<string, unknown>): string {
+  const properties = Object.keys((schema.properties as Record<string, unknown> | undefined) ?? {});
+  const required = new Set((schema.required as string[] | undefined) ?? []);
+  return properties.map(name => `\`${name}${required.has(name) ? "" : "?"}\``).join(", ");
+}
+
+function toolTable(tools: ToolManifestEntry[]): string[] {
+  return [
+    "| Tool | Module | Access | Scopes | Arguments | Description |",
+    "|------|--------|--------|--------|-----------|-------------|",
+    ...tools.map(tool =>
+      `| \`${tool.name}\` | ${tool.module} | ${tool.access} | ${tool.scopes.map(scope => `\`${scope}\``).join(", ")} | ${argumentList(tool.inputSchema)} | ${cell(tool.description)} |`
+    ),
+  ];
+}
+
+export function manifestToMarkdown(manifest: ToolManifest): string {
+  const { categories, tools } = manifest;
+  const always = tools.filter(tool => tool.category === null);
+  const count = (access: ToolAccess, category: string | null) =>
+    tools.filter(tool => tool.category === category && tool.access === access).length;
+
+  const lines = [
+    "# Tool Manifest",
+    "",
+    "<!-- Generated by `npm run docs:tools`; do not edit by hand. -->",
+    "",
+    `${tools.length} tools: ${always.length} always registered, the rest in ${categories.length} categories. Arguments marked \`?\` are optional; \`npm run manifest\` prints the full input schemas as JSON.`,
+    "",
+    "| Category | Tools | Read | Write | Raw GraphQL |",
+    "|----------|-------|------|-------|-------------|",
+    ...categories.map(category => `| ${category.name} | ${category.tools} | ${count("read", category.name)} | ${count("write", category.name)} | ${count("raw", category.name)} |`),
+    `| (always) | ${always.length} | ${count("read", null)} | ${count("write", null)} | ${count("raw", null)} |`,
+    "",
+  ];
+
+  for (const category of categories) {
+    lines.push(`## ${category.name}`, "", category.description, "", ...toolTable(tools.filter(tool => tool.category === category.name)), "");
+  }
+  lines.push("## Always registered", "", ...toolTable(always), "");
+
+  return lines.join("\n");
+}
@@ -1,6 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { defineMutationTool, defineQueryTool } from "../utils/tool-factory.js";
 
 // Types for menu items
 interface MenuItem {
@@ -57,140 +58,100 @@ function convertToUpdateInput(item: MenuItem): Record<string, unknown> {
 
 export function registerNavigationTools(server: McpServer, client: ShopifyGraphQLClient) {
   // Get Menus
-  server.registerTool(
-    "get_menus",
-    {
-      description: "Fetch navigation menus for the online store",
-      inputSchema: {
-        first: z.number().min(1).max(250).optional().describe("Number of menus to fetch (1-250, default: 50)"),
-        after: z.string().optional().describe("Cursor for pagination"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_menus",
+    description: "Fetch navigation menus for the online store",
+    inputSchema: {
+      first: z.number().min(1).max(250).optional().describe("Number of menus to fetch (1-250, default: 50)"),
+      after: z.string().optional().describe("Cursor for pagination"),
     },
-    async ({ first = 50, after }) => {
-      const query = `
-        query GetMenus($first: Int!, $after: String) {
-          menus(first: $first, after: $after) {
-            edges {
-              node {
+    document: `
+      query GetMenus($first: Int!, $after: String) {
+        menus(first: $first, after: $after) {
+          edges {
+            node {
+              id
+              title
+              handle
+              isDefault
+              items(limit: 100) {
                 id
                 title
-                handle
-                isDefault
-                items(limit: 100) {
+                url
+                type
+                resourceId
+                tags
+                items {
                   id
                   title
                   url
                   type
                   resourceId
-                  tags
                   items {
                     id
                     title
                     url
                     type
                     resourceId
-                    items {
-                      id
-                      title
-                      url
-                      type
-                      resourceId
-                    }
                   }
                 }
               }
-              cursor
-            }
-            pageInfo {
-              hasNextPage
-              hasPreviousPage
             }
+            cursor
+          }
+          pageInfo {
+            hasNextPage
+            hasPreviousPage
+            endCursor
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(query, { first, after });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    paginate: ["menus"],
+    variables: ({ first = 50, after }) => ({ first, after }),
+  });
 
   // Get Menu
-  server.registerTool(
-    "get_menu",
-    {
-      description: "Fetch a specific menu by ID",
-      inputSchema: {
-        id: z.string().describe("Menu ID (e.g., 'gid://shopify/Menu/123456789')"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_menu",
+    description: "Fetch a specific menu by ID",
+    inputSchema: {
+      id: z.string().describe("Menu ID (e.g., 'gid://shopify/Menu/123456789')"),
     },
-    async ({ id }) => {
-      const query = `
-        query GetMenu($id: ID!) {
-          menu(id: $id) {
+    document: `
+      query GetMenu($id: ID!) {
+        menu(id: $id) {
+          id
+          title
+          handle
+          isDefault
+          items(limit: 200) {
             id
             title
-            handle
-            isDefault
-            items(limit: 200) {
+            url
+            type
+            resourceId
+            tags
+            items {
               id
               title
               url
               type
               resourceId
-              tags
               items {
                 id
                 title
                 url
                 type
                 resourceId
-                items {
-                  id
-                  title
-                  url
-                  type
-                  resourceId
-                }
               }
             }
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(query, { id });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: ({ id }) => ({ id }),
+  });
 
   // Get Menu Item
   server.registerTool(
@@ -439,99 +400,79 @@ export function registerNavigationTools(server: McpServer, client: ShopifyGraphQ
   );
 
   // Create Menu
-  server.registerTool(
-    "create_menu",
-    {
-      description: "Create a new navigation menu",
-      inputSchema: {
-        title: z.string().describe("Menu title"),
-        handle: z.string().describe("Unique handle (e.g., 'main-menu')"),
-        items: z.array(z.object({
-          title: z.string().describe("Item title"),
-          url: z.string().optional().describe("Item URL"),
-          type: z.string().optional().describe("Item type (e.g., 'PAGE', 'PRODUCT', 'COLLECTION', 'BLOG', 'HTTP')"),
-        })).optional().describe("Menu items"),
-      },
+  defineMutationTool(server, client, {
+    name: "create_menu",
+    description: "Create a new navigation menu",
+    inputSchema: {
+      title: z.string().describe("Menu title"),
+      handle: z.string().describe("Unique handle (e.g., 'main-menu')"),
+      items: z.array(z.object({
+        title: z.string().describe("Item title"),
+        url: z.string().optional().describe("Item URL"),
+        type: z.string().optional().describe("Item type (e.g., 'PAGE', 'PRODUCT', 'COLLECTION', 'BLOG', 'HTTP')"),
+      })).optional().describe("Menu items"),
     },
-    async ({ title, handle, items }) => {
-      const mutation = `
-        mutation MenuCreate($title: String!, $handle: String!, $items: [MenuItemCreateInput!]) {
-          menuCreate(title: $title, handle: $handle, items: $items) {
-            menu {
+    document: `
+      mutation MenuCreate($title: String!, $handle: String!, $items: [MenuItemCreateInput!]) {
+        menuCreate(title: $title, handle: $handle, items: $items) {
+          menu {
+            id
+            title
+            handle
+            isDefault
+            items(limit: 100) {
               id
               title
-              handle
-              isDefault
-              items(limit: 100) {
-                id
-                title
-                url
-              }
-            }
-            userErrors {
-              field
-              message
+              url
             }
           }
+          userErrors {
+            field
+            message
+          }
         }
-      `;
-
-      try {
-        const result = await client.execute(mutation, { title, handle, items });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: ({ title, handle, items }) => ({ title, handle, items }),
+  });
 
   // Update Menu
-  server.registerTool(
-    "update_menu",
-    {
-      description: "Update an existing navigation menu. Requires passing the entire menu structure including all items and their IDs. Consider using update_menu_item_children for simpler partial updates.",
-      inputSchema: {
-        id: z.string().describe("Menu ID"),
-        title: z.string().describe("Menu title"),
+  defineMutationTool(server, client, {
+    name: "update_menu",
+    description: "Update an existing navigation menu. Requires passing the entire menu structure including all items and their IDs. Consider using update_menu_item_children for simpler partial updates.",
+    inputSchema: {
+      id: z.string().describe("Menu ID"),
+      title: z.string().describe("Menu title"),
+      items: z.array(z.object({
+        id: z.string().optional().describe("Item ID (required for existing items, omit for new items)"),
+        title: z.string().describe("Item title"),
+        url: z.string().optional().describe("Item URL"),
+        type: z.string().optional().describe("Item type"),
         items: z.array(z.object({
-          id: z.string().optional().describe("Item ID (required for existing items, omit for new items)"),
-          title: z.string().describe("Item title"),
-          url: z.string().optional().describe("Item URL"),
-          type: z.string().optional().describe("Item type"),
+          id: z.string().optional().describe("Nested item ID"),
+          title: z.string().describe("Nested item title"),
+          url: z.string().optional().describe("Nested item URL"),
+          type: z.string().optional().describe("Nested item type"),
           items: z.array(z.object({
-            id: z.string().optional().describe("Nested item ID"),
-            title: z.string().describe("Nested item title"),
-            url: z.string().optional().describe("Nested item URL"),
-            type: z.string().optional().describe("Nested item type"),
-            items: z.array(z.object({
-              title: z.string().describe("3rd level item title"),
-              url: z.string().optional().describe("3rd level item URL"),
-              type: z.string().optional().describe("3rd level item type"),
-            })).optional().describe("3rd level nested items"),
-          })).optional().describe("Nested items (2nd level)"),
-        })).optional().describe("Complete menu items structure (all levels)"),
-      },
+            title: z.string().describe("3rd level item title"),
+            url: z.string().optional().describe("3rd level item URL"),
+            type: z.string().optional().describe("3rd level item type"),
+          })).optional().describe("3rd level nested items"),
+        })).optional().describe("Nested items (2nd level)"),
+      })).optional().describe("Complete menu items structure (all levels)"),
     },
-    async ({ id, title, items }) => {
-      const mutation = `
-        mutation MenuUpdate($id: ID!, $title: String!, $items: [MenuItemUpdateInput!]) {
-          menuUpdate(id: $id, title: $title, items: $items) {
-            menu {
+    document: `
+      mutation MenuUpdate($id: ID!, $title: String!, $items: [MenuItemUpdateInput!]) {
+        menuUpdate(id: $id, title: $title, items: $items) {
+          menu {
+            id
+            title
+            handle
+            items(limit: 100) {
               id
               title
-              handle
-              items(limit: 100) {
+              url
+              items {
                 id
                 title
                 url
@@ -539,81 +480,38 @@ export function registerNavigationTools(server: McpServer, client: ShopifyGraphQ
                   id
                   title
                   url
-                  items {
-                    id
-                    title
-                    url
-                  }
                 }
               }
             }
-            userErrors {
-              field
-              message
-            }
+          }
+          userErrors {
+            field
+            message
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(mutation, { id, title, items });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: ({ id, title, items }) => ({ id, title, items }),
+  });
 
   // Delete Menu
-  server.registerTool(
-    "delete_menu",
-    {
-      description: "Delete a navigation menu",
-      inputSchema: {
-        id: z.string().describe("Menu ID to delete"),
-      },
+  defineMutationTool(server, client, {
+    name: "delete_menu",
+    description: "Delete a navigation menu",
+    inputSchema: {
+      id: z.string().describe("Menu ID to delete"),
     },
-    async ({ id }) => {
-      const mutation = `
-        mutation MenuDelete($id: ID!) {
-          menuDelete(id: $id) {
-            deletedMenuId
-            userErrors {
-              field
-              message
-            }
+    document: `
+      mutation MenuDelete($id: ID!) {
+        menuDelete(id: $id) {
+          deletedMenuId
+          userErrors {
+            field
+            message
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(mutation, { id });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: ({ id }) => ({ id }),
+  });
 }
@@ -1,57 +1,37 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { defineQueryTool } from "../utils/tool-factory.js";
 
 export function registerPrivacySettingsTools(server: McpServer, client: ShopifyGraphQLClient) {
-  server.registerTool(
-    "get_privacy_settings",
-    {
-      description: "Fetch privacy settings from the Shopify store",
-      inputSchema: {},
-    },
-    async () => {
-      const graphqlQuery = `
-        query GetPrivacySettings {
-          privacy {
-            checkout {
-              gdprApplies
-              legalPrivacyName
-            }
-            customerAccounts {
-              gdprApplies
-              legalPrivacyName
-            }
-            marketing {
-              gdprApplies
-              legalPrivacyName
-            }
-            preferences {
-              gdprApplies
-              legalPrivacyName
-            }
+  defineQueryTool(server, client, {
+    name: "get_privacy_settings",
+    description: "Fetch privacy settings from the Shopify store",
+    inputSchema: {},
+    document: `
+      query GetPrivacySettings {
+        privacy {
+          checkout {
+            gdprApplies
+            legalPrivacyName
+          }
+          customerAccounts {
+            gdprApplies
+            legalPrivacyName
+          }
+          marketing {
+            gdprApplies
+            legalPrivacyName
+          }
+          preferences {
+            gdprApplies
+            legalPrivacyName
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, {});
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: () => ({}),
+  });
 
   server.registerTool(
     "update_privacy_settings",
@@ -114,50 +94,29 @@ export function registerPrivacySettingsTools(server: McpServer, client: ShopifyG
     }
   );
 
-  server.registerTool(
-    "get_visitor_privacy_consent",
-    {
-      description: "Get visitor privacy consent status",
-      inputSchema: {
-        visitorId: z.string().describe("Visitor ID"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_visitor_privacy_consent",
+    description: "Get visitor privacy consent status",
+    inputSchema: {
+      visitorId: z.string().describe("Visitor ID"),
     },
-    async ({ visitorId }) => {
-      const graphqlQuery = `
-        query GetVisitorPrivacyConsent($visitorId: ID!) {
-          visitor(id: $visitorId) {
-            id
-            privacy {
-              gdprApplies
-              marketingConsent {
-                grantedAt
-                marketingMethod
-              }
-              preferencesConsent {
-                grantedAt
-              }
+    document: `
+      query GetVisitorPrivacyConsent($visitorId: ID!) {
+        visitor(id: $visitorId) {
+          id
+          privacy {
+            gdprApplies
+            marketingConsent {
+              grantedAt
+              marketingMethod
+            }
+            preferencesConsent {
+              grantedAt
             }
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { visitorId });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: ({ visitorId }) => ({ visitorId }),
+  });
 }
@@ -1,211 +1,153 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { defineQueryTool } from "../utils/tool-factory.js";
 
 export function registerProductListingTools(server: McpServer, client: ShopifyGraphQLClient) {
-  server.registerTool(
-    "get_product_listings",
-    {
-      description: "Fetch product listings from the Shopify store",
-      inputSchema: {
-        first: z.number().min(1).max(250).optional().describe("Number of listings to fetch (1-250, default: 50)"),
-        after: z.string().optional().describe("Cursor for pagination"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_product_listings",
+    description: "Fetch product listings from the Shopify store",
+    inputSchema: {
+      first: z.number().min(1).max(250).optional().describe("Number of listings to fetch (1-250, default: 50)"),
+      after: z.string().optional().describe("Cursor for pagination"),
     },
-    async ({ first = 50, after }) => {
-      const graphqlQuery = `
-        query GetProductListings($first: Int!, $after: String) {
-          productListings(first: $first, after: $after) {
-            edges {
-              node {
-                id
-                productId
-                title
-                description
-                handle
-                productType
-                vendor
-                tags
-                priceRangeV2 {
-                  minVariantPrice {
-                    amount
-                    currencyCode
-                  }
-                  maxVariantPrice {
-                    amount
-                    currencyCode
-                  }
+    document: `
+      query GetProductListings($first: Int!, $after: String) {
+        productListings(first: $first, after: $after) {
+          edges {
+            node {
+              id
+              productId
+              title
+              description
+              handle
+              productType
+              vendor
+              tags
+              priceRangeV2 {
+                minVariantPrice {
+                  amount
+                  currencyCode
+                }
+                maxVariantPrice {
+                  amount
+                  currencyCode
                 }
-                images(first: 5) {
-                  edges {
-                    node {
-                      id
-                      url
-                      altText
-                    }
+              }
+              images(first: 5) {
+                edges {
+                  node {
+                    id
+                    url
+                    altText
                   }
                 }
               }
-              cursor
-            }
-            pageInfo {
-              hasNextPage
-              hasPreviousPage
             }
+            cursor
+          }
+          pageInfo {
+            hasNextPage
+            hasPreviousPage
+            endCursor
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { first, after });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    paginate: ["productListings"],
+    variables: ({ first = 50, after }) => ({ first, after }),
+  });
 
-  server.registerTool(
-    "get_product_listing",
-    {
-      description: "Fetch a specific product listing by ID",
-      inputSchema: {
-        id: z.string().describe("Product listing ID (e.g., 'gid://shopify/ProductListing/123456789')"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_product_listing",
+    description: "Fetch a specific product listing by ID",
+    inputSchema: {
+      id: z.string().describe("Product listing ID (e.g., 'gid://shopify/ProductListing/123456789')"),
     },
-    async ({ id }) => {
-      const graphqlQuery = `
-        query GetProductListing($id: ID!) {
-          productListing(id: $id) {
-            id
-            productId
-            title
-            description
-            handle
-            productType
-            vendor
-            tags
-            priceRangeV2 {
-              minVariantPrice {
-                amount
-                currencyCode
-              }
-              maxVariantPrice {
-                amount
-                currencyCode
-              }
+    document: `
+      query GetProductListing($id: ID!) {
+        productListing(id: $id) {
+          id
+          productId
+          title
+          description
+          handle
+          productType
+          vendor
+          tags
+          priceRangeV2 {
+            minVariantPrice {
+              amount
+              currencyCode
             }
-            images(first: 10) {
-              edges {
-                node {
-                  id
-                  url
-                  altText
-                }
-              }
+            maxVariantPrice {
+              amount
+              currencyCode
             }
-            variants(first: 50) {
-              edges {
-                node {
-                  id
-                  title
-                  price {
-                    amount
-                    currencyCode
-                  }
-                  availableForSale
-                  sku
-                }
+          }
+          images(first: 10) {
+            edges {
+              node {
+                id
+                url
+                altText
               }
             }
           }
-        }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { id });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
-      }
-    }
-  );
-
-  server.registerTool(
-    "get_collection_listings",
-    {
-      description: "Fetch collection listings from the Shopify store",
-      inputSchema: {
-        first: z.number().min(1).max(250).optional().describe("Number of listings to fetch (1-250, default: 50)"),
-        after: z.string().optional().describe("Cursor for pagination"),
-      },
-    },
-    async ({ first = 50, after }) => {
-      const graphqlQuery = `
-        query GetCollectionListings($first: Int!, $after: String) {
-          collectionListings(first: $first, after: $after) {
+          variants(first: 50) {
             edges {
               node {
                 id
-                collectionId
                 title
-                description
-                handle
-                image {
-                  id
-                  url
-                  altText
+                price {
+                  amount
+                  currencyCode
                 }
+                availableForSale
+                sku
               }
-              cursor
-            }
-            pageInfo {
-              hasNextPage
-              hasPreviousPage
             }
           }
         }
-      `;
+      }
+    `,
+    variables: ({ id }) => ({ id }),
+  });
 
-      try {
-        const result = await client.execute(graphqlQuery, { first, after });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
+  defineQueryTool(server, client, {
+    name: "get_collection_listings",
+    description: "Fetch collection listings from the Shopify store",
+    inputSchema: {
+      first: z.number().min(1).max(250).optional().describe("Number of listings to fetch (1-250, default: 50)"),
+      after: z.string().optional().describe("Cursor for pagination"),
+    },
+    document: `
+      query GetCollectionListings($first: Int!, $after: String) {
+        collectionListings(first: $first, after: $after) {
+          edges {
+            node {
+              id
+              collectionId
+              title
+              description
+              handle
+              image {
+                id
+                url
+                altText
+              }
+            }
+            cursor
+          }
+          pageInfo {
+            hasNextPage
+            hasPreviousPage
+            endCursor
+          }
         }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    paginate: ["collectionListings"],
+    variables: ({ first = 50, after }) => ({ first, after }),
+  });
 }
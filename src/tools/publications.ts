@@ -1,216 +1,139 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { defineQueryTool } from "../utils/tool-factory.js";
 
 export function registerPublicationTools(server: McpServer, client: ShopifyGraphQLClient) {
-  server.registerTool(
-    "get_publications",
-    {
-      description: "Fetch publications from the Shopify store",
-      inputSchema: {
-        first: z.number().min(1).max(250).optional().describe("Number of publications to fetch (1-250, default: 50)"),
-        after: z.string().optional().describe("Cursor for pagination"),
-        catalogType: z.enum(["APP", "INDIVIDUAL", "CROSS_BORDER", "EXTERNAL"]).optional().describe("Filter by catalog type"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_publications",
+    description: "Fetch publications from the Shopify store",
+    inputSchema: {
+      first: z.number().min(1).max(250).optional().describe("Number of publications to fetch (1-250, default: 50)"),
+      after: z.string().optional().describe("Cursor for pagination"),
+      catalogType: z.enum(["APP", "INDIVIDUAL", "CROSS_BORDER", "EXTERNAL"]).optional().describe("Filter by catalog type"),
     },
-    async ({ first = 50, after, catalogType }) => {
-      const graphqlQuery = `
-        query GetPublications($first: Int!, $after: String, $catalogType: CatalogType) {
-          publications(first: $first, after: $after, catalogType: $catalogType) {
-            edges {
-              node {
+    document: `
+      query GetPublications($first: Int!, $after: String, $catalogType: CatalogType) {
+        publications(first: $first, after: $after, catalogType: $catalogType) {
+          edges {
+            node {
+              id
+              name
+              autoPublish
+              supportsFuturePublishing
+              catalog {
                 id
                 name
-                autoPublish
-                supportsFuturePublishing
-                catalog {
-                  id
-                  name
-                }
               }
-              cursor
-            }
-            pageInfo {
-              hasNextPage
-              hasPreviousPage
             }
+            cursor
+          }
+          pageInfo {
+            hasNextPage
+            hasPreviousPage
+            endCursor
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { first, after, catalogType });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    paginate: ["publications"],
+    variables: ({ first = 50, after, catalogType }) => ({ first, after, catalogType }),
+  });
 
-  server.registerTool(
-    "get_publication",
-    {
-      description: "Fetch a specific publication by ID",
-      inputSchema: {
-        id: z.string().describe("Publication ID (e.g., 'gid://shopify/Publication/123456789')"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_publication",
+    description: "Fetch a specific publication by ID",
+    inputSchema: {
+      id: z.string().describe("Publication ID (e.g., 'gid://shopify/Publication/123456789')"),
     },
-    async ({ id }) => {
-      const graphqlQuery = `
-        query GetPublication($id: ID!) {
-          publication(id: $id) {
+    document: `
+      query GetPublication($id: ID!) {
+        publication(id: $id) {
+          id
+          name
+          autoPublish
+          supportsFuturePublishing
+          catalog {
             id
             name
-            autoPublish
-            supportsFuturePublishing
-            catalog {
-              id
-              name
-            }
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { id });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: ({ id }) => ({ id }),
+  });
 
-  server.registerTool(
-    "get_publication_products",
-    {
-      description: "Fetch products published to a publication",
-      inputSchema: {
-        publicationId: z.string().describe("Publication ID"),
-        first: z.number().min(1).max(250).optional().describe("Number of products to fetch (1-250, default: 50)"),
-        after: z.string().optional().describe("Cursor for pagination"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_publication_products",
+    description: "Fetch products published to a publication",
+    inputSchema: {
+      publicationId: z.string().describe("Publication ID"),
+      first: z.number().min(1).max(250).optional().describe("Number of products to fetch (1-250, default: 50)"),
+      after: z.string().optional().describe("Cursor for pagination"),
     },
-    async ({ publicationId, first = 50, after }) => {
-      const graphqlQuery = `
-        query GetPublicationProducts($id: ID!, $first: Int!, $after: String) {
-          publication(id: $id) {
-            id
-            name
-            products(first: $first, after: $after) {
-              edges {
-                node {
-                  id
-                  title
-                  handle
-                  createdAt
-                  productType
-                  vendor
-                }
-                cursor
-              }
-              pageInfo {
-                hasNextPage
-                hasPreviousPage
+    document: `
+      query GetPublicationProducts($id: ID!, $first: Int!, $after: String) {
+        publication(id: $id) {
+          id
+          name
+          products(first: $first, after: $after) {
+            edges {
+              node {
+                id
+                title
+                handle
+                createdAt
+                productType
+                vendor
               }
+              cursor
+            }
+            pageInfo {
+              hasNextPage
+              hasPreviousPage
+              endCursor
             }
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { id: publicationId, first, after });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    paginate: ["publication", "products"],
+    variables: ({ publicationId, first = 50, after }) => ({ id: publicationId, first, after }),
+  });
 
-  server.registerTool(
-    "get_publication_collections",
-    {
-      description: "Fetch collections published to a publication",
-      inputSchema: {
-        publicationId: z.string().describe("Publication ID"),
-        first: z.number().min(1).max(250).optional().describe("Number of collections to fetch (1-250, default: 50)"),
-        after: z.string().optional().describe("Cursor for pagination"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_publication_collections",
+    description: "Fetch collections published to a publication",
+    inputSchema: {
+      publicationId: z.string().describe("Publication ID"),
+      first: z.number().min(1).max(250).optional().describe("Number of collections to fetch (1-250, default: 50)"),
+      after: z.string().optional().describe("Cursor for pagination"),
     },
-    async ({ publicationId, first = 50, after }) => {
-      const graphqlQuery = `
-        query GetPublicationCollections($id: ID!, $first: Int!, $after: String) {
-          publication(id: $id) {
-            id
-            name
-            collections(first: $first, after: $after) {
-              edges {
-                node {
-                  id
-                  title
-                  handle
-                  updatedAt
-                }
-                cursor
-              }
-              pageInfo {
-                hasNextPage
-                hasPreviousPage
+    document: `
+      query GetPublicationCollections($id: ID!, $first: Int!, $after: String) {
+        publication(id: $id) {
+          id
+          name
+          collections(first: $first, after: $after) {
+            edges {
+              node {
+                id
+                title
+                handle
+                updatedAt
               }
+              cursor
+            }
+            pageInfo {
+              hasNextPage
+              hasPreviousPage
+              endCursor
             }
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { id: publicationId, first, after });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    paginate: ["publication", "collections"],
+    variables: ({ publicationId, first = 50, after }) => ({ id: publicationId, first, after }),
+  });
 }
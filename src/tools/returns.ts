@@ -1,119 +1,97 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { ShopifyGraphQLClient } from "../utils/graphql-client.js";
+import { defineMutationTool, defineQueryTool } from "../utils/tool-factory.js";
 
 export function registerReturnsTools(server: McpServer, client: ShopifyGraphQLClient) {
-  server.registerTool(
-    "get_returnable_fulfillments",
-    {
-      description: "Fetch fulfillments that can be returned for an order",
-      inputSchema: {
-        orderId: z.string().describe("Order ID (e.g., 'gid://shopify/Order/123456789')"),
-        first: z.number().min(1).max(250).optional().describe("Number of fulfillments to fetch (1-250, default: 50)"),
-        after: z.string().optional().describe("Cursor for pagination"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_returnable_fulfillments",
+    description: "Fetch fulfillments that can be returned for an order",
+    inputSchema: {
+      orderId: z.string().describe("Order ID (e.g., 'gid://shopify/Order/123456789')"),
+      first: z.number().min(1).max(250).optional().describe("Number of fulfillments to fetch (1-250, default: 50)"),
+      after: z.string().optional().describe("Cursor for pagination"),
     },
-    async ({ orderId, first = 50, after }) => {
-      const graphqlQuery = `
-        query GetReturnableFulfillments($orderId: ID!, $first: Int!, $after: String) {
-          returnableFulfillments(orderId: $orderId, first: $first, after: $after) {
-            edges {
-              node {
+    document: `
+      query GetReturnableFulfillments($orderId: ID!, $first: Int!, $after: String) {
+        returnableFulfillments(orderId: $orderId, first: $first, after: $after) {
+          edges {
+            node {
+              id
+              returnType
+              fulfillment {
                 id
-                returnType
-                fulfillment {
-                  id
-                  status
-                  createdAt
-                  trackingInfo(first: 5) {
-                    edges {
-                      node {
-                        number
-                        company
-                        url
-                      }
+                status
+                createdAt
+                trackingInfo(first: 5) {
+                  edges {
+                    node {
+                      number
+                      company
+                      url
                     }
                   }
-                  lineItems(first: 10) {
-                    edges {
-                      node {
+                }
+                lineItems(first: 10) {
+                  edges {
+                    node {
+                      id
+                      title
+                      quantity
+                      variant {
                         id
                         title
-                        quantity
-                        variant {
+                        sku
+                        product {
                           id
                           title
-                          sku
-                          product {
-                            id
-                            title
-                          }
                         }
                       }
                     }
                   }
                 }
               }
-              cursor
-            }
-            pageInfo {
-              hasNextPage
-              hasPreviousPage
             }
+            cursor
+          }
+          pageInfo {
+            hasNextPage
+            hasPreviousPage
+            endCursor
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { orderId, first, after });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    paginate: ["returnableFulfillments"],
+    variables: ({ orderId, first = 50, after }) => ({ orderId, first, after }),
+  });
 
-  server.registerTool(
-    "get_returns_by_order",
-    {
-      description: "Fetch returns for a specific order",
-      inputSchema: {
-        orderId: z.string().describe("Order ID (e.g., 'gid://shopify/Order/123456789')"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_returns_by_order",
+    description: "Fetch returns for a specific order",
+    inputSchema: {
+      orderId: z.string().describe("Order ID (e.g., 'gid://shopify/Order/123456789')"),
     },
-    async ({ orderId }) => {
-      const graphqlQuery = `
-        query GetOrderReturns($id: ID!) {
-          order(id: $id) {
-            id
-            name
-            returns(first: 20) {
-              edges {
-                node {
-                  id
-                  name
-                  createdAt
-                  status
-                  returnLineItems(first: 20) {
-                    edges {
-                      node {
+    document: `
+      query GetOrderReturns($id: ID!) {
+        order(id: $id) {
+          id
+          name
+          returns(first: 20) {
+            edges {
+              node {
+                id
+                name
+                createdAt
+                status
+                returnLineItems(first: 20) {
+                  edges {
+                    node {
+                      id
+                      quantity
+                      fulfillmentLineItem {
                         id
-                        quantity
-                        fulfillmentLineItem {
-                          id
-                          title
-                        }
+                        title
                       }
                     }
                   }
@@ -122,123 +100,85 @@ export function registerReturnsTools(server: McpServer, client: ShopifyGraphQLCl
             }
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { id: orderId });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: ({ orderId }) => ({ id: orderId }),
+  });
 
-  server.registerTool(
-    "get_return",
-    {
-      description: "Fetch a specific return by ID",
-      inputSchema: {
-        id: z.string().describe("Return ID (e.g., 'gid://shopify/Return/123456789')"),
-      },
+  defineQueryTool(server, client, {
+    name: "get_return",
+    description: "Fetch a specific return by ID",
+    inputSchema: {
+      id: z.string().describe("Return ID (e.g., 'gid://shopify/Return/123456789')"),
     },
-    async ({ id }) => {
-      const graphqlQuery = `
-        query GetReturn($id: ID!) {
-          return(id: $id) {
+    document: `
+      query GetReturn($id: ID!) {
+        return(id: $id) {
+          id
+          name
+          createdAt
+          updatedAt
+          closedAt
+          status
+          order {
             id
             name
-            createdAt
-            updatedAt
-            closedAt
-            status
-            order {
+            customer {
               id
-              name
-              customer {
-                id
-                firstName
-                lastName
-                email
-              }
+              firstName
+              lastName
+              email
             }
-            returnLineItems(first: 50) {
-              edges {
-                node {
+          }
+          returnLineItems(first: 50) {
+            edges {
+              node {
+                id
+                quantity
+                processedQuantity
+                refundableQuantity
+                returnReasonNote
+                fulfillmentLineItem {
                   id
+                  title
                   quantity
-                  processedQuantity
-                  refundableQuantity
-                  returnReasonNote
-                  fulfillmentLineItem {
+                  variant {
                     id
                     title
-                    quantity
-                    variant {
-                      id
-                      title
-                      sku
-                    }
+                    sku
                   }
                 }
               }
             }
-            reverseFulfillmentOrders(first: 10) {
-              edges {
-                node {
-                  id
-                  status
-                  fulfillmentHolds
-                }
+          }
+          reverseFulfillmentOrders(first: 10) {
+            edges {
+              node {
+                id
+                status
+                fulfillmentHolds
               }
             }
-            refunds(first: 10) {
-              edges {
-                node {
-                  id
-                  createdAt
-                  totalRefundedSet {
-                    shopMoney {
-                      amount
-                      currencyCode
-                    }
+          }
+          refunds(first: 10) {
+            edges {
+              node {
+                id
+                createdAt
+                totalRefundedSet {
+                  shopMoney {
+                    amount
+                    currencyCode
                   }
                 }
               }
             }
           }
         }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { id });
-        
-        if (result.errors) {
-          return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
-        }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: ({ id }) => ({ id }),
+  });
 
   server.registerTool(
     "create_return",
@@ -316,50 +256,29 @@ export function registerReturnsTools(server: McpServer, client: ShopifyGraphQLCl
     }
   );
 
-  server.registerTool(
-    "approve_return_request",
-    {
-      description: "Approve a return request",
-      inputSchema: {
-        returnId: z.string().describe("Return ID (e.g., 'gid://shopify/Return/123456789')"),
-      },
+  defineMutationTool(server, client, {
+    name: "approve_return_request",
+    description: "Approve a return request",
+    inputSchema: {
+      returnId: z.string().describe("Return ID (e.g., 'gid://shopify/Return/123456789')"),
     },
-    async ({ returnId }) => {
-      const graphqlQuery = `
-        mutation ApproveReturnRequest($input: ReturnApproveRequestInput!) {
-          returnApproveRequest(input: $input) {
-            return {
-              id
-              name
-              status
-            }
-            userErrors {
-              field
-              message
-            }
-          }
-        }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { input: { returnId } });
-        
-        if (result.errors) {
+    document: `
+      mutation ApproveReturnRequest($input: ReturnApproveRequestInput!) {
+        returnApproveRequest(input: $input) {
           return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
+            id
+            name
+            status
+          }
+          userErrors {
+            field
+            message
+          }
         }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: ({ returnId }) => ({ input: { returnId } }),
+  });
 
   server.registerTool(
     "decline_return_request",
@@ -413,49 +332,28 @@ export function registerReturnsTools(server: McpServer, client: ShopifyGraphQLCl
     }
   );
 
-  server.registerTool(
-    "close_return",
-    {
-      description: "Close a return",
-      inputSchema: {
-        returnId: z.string().describe("Return ID (e.g., 'gid://shopify/Return/123456789')"),
-      },
+  defineMutationTool(server, client, {
+    name: "close_return",
+    description: "Close a return",
+    inputSchema: {
+      returnId: z.string().describe("Return ID (e.g., 'gid://shopify/Return/123456789')"),
     },
-    async ({ returnId }) => {
-      const graphqlQuery = `
-        mutation CloseReturn($id: ID!) {
-          returnClose(id: $id) {
-            return {
-              id
-              name
-              status
-              closedAt
-            }
-            userErrors {
-              field
-              message
-            }
-          }
-        }
-      `;
-
-      try {
-        const result = await client.execute(graphqlQuery, { id: returnId });
-        
-        if (result.errors) {
+    document: `
+      mutation CloseReturn($id: ID!) {
+        returnClose(id: $id) {
           return {
-            content: [{ type: "text", text: `GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}` }],
-          };
+            id
+            name
+            status
+            closedAt
+          }
+          userErrors {
+            field
+            message
+          }
         }
-
-        return {
-          content: [{ type: "text", text: JSON.stringify(result.data, null, 2) }],
-        };
-      } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-        };
       }
-    }
-  );
+    `,
+    variables: ({ returnId }) => ({ id: returnId }),
+  });
 }
@@ -0,0 +1,135 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { ALL_CATEGORIES } from "../config/tool-categories.js";
+
+/**
+ * A tool any registrar can provide, whether or not it is registered on this
+ * server
+ */
+export interface ToolCatalogueEntry {
+  name: string;
+  description: string;
+  module: string;
+  category?: string;
+}
+
+/**
+ * What the discovery tools need from the server they are registered on
+ */
+export interface ToolLoader {
+  /** Every tool the category modules provide */
+  catalogue(): ToolCatalogueEntry[];
+  /** Whether the tool is registered on this server */
+  isLoaded(name: string): boolean;
+  /** Register the category's modules; returns the tools that were added */
+  loadCategory(category: string): string[];
+}
+
+const categoryNames = ALL_CATEGORIES.map(category => category.name) as [string, ...string[]];
+
+export function registerToolDiscoveryTools(server: McpServer, loader: ToolLoader) {
+  // Categories with how many of their tools this session has
+  server.registerTool(
+    "list_tool_categories",
+    {
+      description: "List the tool categories this server offers, with the number of tools in each and how many are loaded in this session. Load a category with enable_tool_category.",
+    },
+    async () => {
+      const catalogue = loader.catalogue();
+
+      const categories = ALL_CATEGORIES.map(category => {
+        const tools = catalogue.filter(tool => tool.category === category.name);
+        return {
+          name: category.name,
+          description: category.description,
+          modules: category.modules,
+          tools: tools.length,
+          loadedTools: tools.filter(tool => loader.isLoaded(tool.name)).length,
+        };
+      });
+
+      return {
+        content: [{ type: "text", text: JSON.stringify({ categories }, null, 2) }],
+      };
+    }
+  );
+
+  // Keyword search over every tool, loaded or not
+  server.registerTool(
+    "search_tools",
+    {
+      description: "Search every tool this server can provide, including tools in categories that aren't loaded, by keywords in the tool name or description (e.g., 'gift card balance', 'payout'). Each result names its category; load it with enable_tool_category.",
+      inputSchema: {
+        query: z.string().min(1).describe("Keywords; every keyword must appear in the tool's name or description"),
+        category: z.enum(categoryNames).optional().describe("Only tools in this category"),
+        limit: z.number().int().min(1).max(100).default(20).describe("Maximum number of tools to return"),
+      },
+    },
+    async ({ query, category, limit }) => {
+      const keywords = query.toLowerCase().split(/[\s_,]+/).filter(Boolean);
+
+      const matches = loader.catalogue()
+        .filter(tool => !category || tool.category === category)
+        .map(tool => {
+          const name = tool.name.toLowerCase();
+          const description = tool.description.toLowerCase();
+          const matched = keywords.every(keyword => name.includes(keyword) || description.includes(keyword));
+          return { tool, matched, inName: keywords.filter(keyword => name.includes(keyword)).length };
+        })
+        .filter(({ matched }) => matched)
+        .sort((a, b) => b.inName - a.inName || a.tool.name.localeCompare(b.tool.name));
+
+      const tools = matches.slice(0, limit).map(({ tool }) => ({
+        name: tool.name,
+        category: tool.category ?? null,
+        module: tool.module,
+        loaded: loader.isLoaded(tool.name),
+        description: tool.description,
+      }));
+
+      return {
+        content: [{ type: "text", text: JSON.stringify({ total: matches.length, tools }, null, 2) }],
+      };
+    }
+  );
+
+  // Register a category's tools in this session
+  server.registerTool(
+    "enable_tool_category",
+    {
+      description: "Load every tool in a category into this session. The client is notified that the tool list changed and sees the new tools on its next tools/list. Tools excluded by DISABLED_TOOLS, read-only mode or missing access scopes stay unavailable.",
+      inputSchema: {
+        category: z.enum(categoryNames).describe("Category to load (see list_tool_categories)"),
+      },
+    },
+    async ({ category }) => {
+      try {
+        const added = loader.loadCategory(category);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  category,
+                  added,
+                  message: added.length > 0
+                    ? `Loaded ${added.length} tools from '${category}'`
+                    : `No new tools: '${category}' is already loaded`,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [{ type: "text", text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+          isError: true,
+        };
+      }
+    }
+  );
+}
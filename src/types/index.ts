@@ -4,6 +4,22 @@ export interface GraphQLResponse<T = unknown> {
     message: string;
     extensions?: Record<string, unknown>;
   }>;
+  extensions?: {
+    cost?: QueryCost;
+    [key: string]: unknown;
+  };
+}
+
+export interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+export interface QueryCost {
+  requestedQueryCost: number;
+  actualQueryCost?: number | null;
+  throttleStatus: ThrottleStatus;
 }
 
 export interface GraphQLError {
@@ -15,13 +31,29 @@ export interface ShopifyConfig {
   accessToken: string;
   storeUrl: string;
   apiUrl: string;
+  /** Admin API version requested (e.g. "2026-01"), when known */
+  apiVersion?: string;
 }
 
+export interface StoreProfile extends ShopifyConfig {
+  name: string;
+}
+
+/**
+ * `read` tools only query and `write` tools run mutations; `raw` tools run
+ * caller-supplied documents, which are mutations whenever
+ * SHOPIFY_MCP_GRAPHQL_MUTATIONS allows any
+ */
+export type ToolAccess = "read" | "write" | "raw";
+
 export interface ToolDefinition {
   name: string;
-  description: string;
-  scope: string;
-  category: string;
+  /** Tool module that registers it (see TOOL_REGISTRARS) */
+  module: string;
+  /** Whether the tool only reads or also changes store data (see ToolAccess) */
+  access: ToolAccess;
+  /** Access scopes the token needs for this tool */
+  scopes: string[];
 }
 
 export interface Order {
@@ -78,15 +110,22 @@ export interface Customer {
   updatedAt: string;
   state: string;
   verifiedEmail: boolean;
-  addresses: {
+  numberOfOrders: string;
+  amountSpent: {
+    amount: string;
+    currencyCode: string;
+  };
+  addressesV2: {
     edges: Array<{
       node: {
         id: string;
-        address1: string;
-        city: string;
+        address1?: string;
+        address2?: string;
+        city?: string;
         province?: string;
-        country: string;
-        zip: string;
+        country?: string;
+        zip?: string;
+        phone?: string;
       };
     }>;
   };
@@ -0,0 +1,246 @@
+import { readdirSync, readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import {
+  buildSchema,
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  getNamedType,
+  GraphQLNamedType,
+  GraphQLSchema,
+  isInterfaceType,
+  isObjectType,
+  Kind,
+  OperationDefinitionNode,
+  parse,
+  SelectionSetNode,
+  validate,
+  ValueNode,
+} from "graphql";
+
+/**
+ * Bundled Admin API schema snapshots
+ *
+ * `schema/admin/<version>.graphql` holds the SDL of one Admin API version
+ * (descriptions stripped). Snapshots are parsed on first use and cached.
+ * Documents are validated against the snapshot matching the store's API
+ * version, or the newest bundled one when there is no exact match.
+ */
+
+const SCHEMA_DIR = fileURLToPath(new URL("../../schema/admin/", import.meta.url));
+
+const schemas = new Map<string, GraphQLSchema>();
+
+/**
+ * API versions with a bundled snapshot, oldest first ("unstable" last)
+ */
+export function bundledApiVersions(): string[] {
+  try {
+    return readdirSync(SCHEMA_DIR)
+      .filter(file => file.endsWith(".graphql"))
+      .map(file => file.slice(0, -".graphql".length))
+      .sort((a, b) => (a === "unstable" ? 1 : b === "unstable" ? -1 : a.localeCompare(b)));
+  } catch {
+    return [];
+  }
+}
+
+export interface AdminSchema {
+  version: string;
+  schema: GraphQLSchema;
+  /** False when `requested` had no snapshot and the newest one was used */
+  exact: boolean;
+}
+
+export function loadAdminSchema(requested?: string): AdminSchema {
+  const versions = bundledApiVersions();
+  const stable = versions.filter(version => version !== "unstable");
+  const version = requested && versions.includes(requested) ? requested : stable[stable.length - 1] ?? versions[0];
+  if (!version) {
+    throw new Error(`No Admin API schema snapshot found in ${SCHEMA_DIR}`);
+  }
+
+  let schema = schemas.get(version);
+  if (!schema) {
+    schema = buildSchema(readFileSync(`${SCHEMA_DIR}${version}.graphql`, "utf8"), { assumeValidSDL: true });
+    schemas.set(version, schema);
+  }
+  return { version, schema, exact: version === requested };
+}
+
+/**
+ * Parse and validate `document`; returns the AST or the validation messages
+ */
+export function validateDocument(
+  schema: GraphQLSchema,
+  document: string
+): { ast: DocumentNode; errors: [] } | { ast?: undefined; errors: string[] } {
+  let ast: DocumentNode;
+  try {
+    ast = parse(document);
+  } catch (error) {
+    return { errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const errors = validate(schema, ast).map((error) => {
+    const location = error.locations?.[0];
+    return location ? `${error.message} (line ${location.line}, column ${location.column})` : error.message;
+  });
+  return errors.length > 0 ? { errors } : { ast, errors: [] };
+}
+
+export function operationsOf(ast: DocumentNode): OperationDefinitionNode[] {
+  return ast.definitions.filter((definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION);
+}
+
+interface CostContext {
+  schema: GraphQLSchema;
+  fragments: Map<string, FragmentDefinitionNode>;
+  variables: Record<string, unknown>;
+}
+
+function argumentValue(node: ValueNode | undefined, context: CostContext): unknown {
+  if (!node) return undefined;
+  if (node.kind === Kind.VARIABLE) return context.variables[node.name.value];
+  if (node.kind === Kind.INT) return Number(node.value);
+  return undefined;
+}
+
+function fieldType(parent: GraphQLNamedType | undefined, field: FieldNode): GraphQLNamedType | undefined {
+  if (!parent || (!isObjectType(parent) && !isInterfaceType(parent))) return undefined;
+  const definition = parent.getFields()[field.name.value];
+  return definition ? getNamedType(definition.type) : undefined;
+}
+
+// Visit every field of a selection set, resolving fragments
+function eachField(
+  selectionSet: SelectionSetNode,
+  parent: GraphQLNamedType | undefined,
+  context: CostContext,
+  visit: (field: FieldNode, parent: GraphQLNamedType | undefined) => void
+): void {
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      visit(selection, parent);
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const type = selection.typeCondition ? context.schema.getType(selection.typeCondition.name.value) : parent;
+      eachField(selection.selectionSet, type ?? undefined, context, visit);
+    } else {
+      const fragment = context.fragments.get(selection.name.value);
+      if (fragment) {
+        eachField(fragment.selectionSet, context.schema.getType(fragment.typeCondition.name.value) ?? undefined, context, visit);
+      }
+    }
+  }
+}
+
+function selectionCost(selectionSet: SelectionSetNode, parent: GraphQLNamedType | undefined, context: CostContext): number {
+  let cost = 0;
+  eachField(selectionSet, parent, context, (field, fieldParent) => {
+    cost += fieldCost(field, fieldParent, context);
+  });
+  return cost;
+}
+
+// Cost of one item of a connection: `edges { node }` or `nodes`, without the wrappers
+function connectionItemCost(selectionSet: SelectionSetNode, connection: GraphQLNamedType, context: CostContext): number {
+  let cost = 0;
+  eachField(selectionSet, connection, context, (field, parent) => {
+    const type = fieldType(parent, field);
+    if (!field.selectionSet || !type) return;
+    if (field.name.value === "nodes") {
+      cost += 1 + selectionCost(field.selectionSet, type, context);
+    } else if (field.name.value === "edges") {
+      eachField(field.selectionSet, type, context, (edgeField, edgeParent) => {
+        const nodeType = fieldType(edgeParent, edgeField);
+        if (edgeField.name.value === "node" && edgeField.selectionSet && nodeType) {
+          cost += 1 + selectionCost(edgeField.selectionSet, nodeType, context);
+        }
+      });
+    }
+  });
+  return cost;
+}
+
+function fieldCost(field: FieldNode, parent: GraphQLNamedType | undefined, context: CostContext): number {
+  const type = fieldType(parent, field);
+  if (!field.selectionSet || !type) {
+    return 0; // Scalars and enums are free
+  }
+
+  if (type.name.endsWith("Connection")) {
+    const argument = (name: string) => argumentValue(field.arguments?.find(arg => arg.name.value === name)?.value, context);
+    const size = Number(argument("first") ?? argument("last") ?? 1);
+    return 2 + (Number.isFinite(size) ? size : 1) * connectionItemCost(field.selectionSet, type, context);
+  }
+
+  return 1 + selectionCost(field.selectionSet, type, context);
+}
+
+/**
+ * Rough cost of an operation following Shopify's calculated query cost:
+ * objects cost 1, scalars and enums 0, connections 2 plus `first`/`last`
+ * times the cost of one item, and every mutation field 10
+ */
+export function estimateQueryCost(
+  schema: GraphQLSchema,
+  ast: DocumentNode,
+  operation: OperationDefinitionNode,
+  variables: Record<string, unknown> = {}
+): number {
+  const defaults: Record<string, unknown> = {};
+  for (const definition of operation.variableDefinitions ?? []) {
+    if (definition.defaultValue?.kind === Kind.INT) {
+      defaults[definition.variable.name.value] = Number(definition.defaultValue.value);
+    }
+  }
+
+  const context: CostContext = {
+    schema,
+    fragments: new Map(
+      ast.definitions
+        .filter((definition): definition is FragmentDefinitionNode => definition.kind === Kind.FRAGMENT_DEFINITION)
+        .map(fragment => [fragment.name.value, fragment])
+    ),
+    variables: { ...defaults, ...variables },
+  };
+
+  const root = operation.operation === "mutation" ? schema.getMutationType() : schema.getQueryType();
+  let cost = 0;
+  eachField(operation.selectionSet, root ?? undefined, context, (field, parent) => {
+    cost += fieldCost(field, parent, context) + (operation.operation === "mutation" && !field.name.value.startsWith("__") ? 10 : 0);
+  });
+  return cost;
+}
+
+/**
+ * Mutation fields caller-supplied documents (execute_graphql,
+ * run_bulk_mutation) may call: SHOPIFY_MCP_GRAPHQL_MUTATIONS, comma-separated
+ */
+export function allowedMutationsFromEnv(): Set<string> {
+  return new Set((process.env.SHOPIFY_MCP_GRAPHQL_MUTATIONS ?? "").split(",").map(name => name.trim()).filter(Boolean));
+}
+
+/**
+ * Names of the root fields an operation selects
+ */
+export function rootFieldNames(ast: DocumentNode, operation: OperationDefinitionNode): string[] {
+  const fragments = new Map(
+    ast.definitions
+      .filter((definition): definition is FragmentDefinitionNode => definition.kind === Kind.FRAGMENT_DEFINITION)
+      .map(fragment => [fragment.name.value, fragment])
+  );
+  const names: string[] = [];
+  const collect = (selectionSet: SelectionSetNode) => {
+    for (const selection of selectionSet.selections) {
+      if (selection.kind === Kind.FIELD) names.push(selection.name.value);
+      else if (selection.kind === Kind.INLINE_FRAGMENT) collect(selection.selectionSet);
+      else {
+        const fragment = fragments.get(selection.name.value);
+        if (fragment) collect(fragment.selectionSet);
+      }
+    }
+  };
+  collect(operation.selectionSet);
+  return names.filter(name => !name.startsWith("__"));
+}
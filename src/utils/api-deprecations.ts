@@ -0,0 +1,76 @@
+/**
+ * Deprecated Admin API usage seen by this server
+ *
+ * Shopify answers a request that touches deprecated fields with an
+ * `X-Shopify-API-Deprecated-Reason` header. The client reports each one
+ * here along with the tool call that sent the request, so the tools that
+ * will break on a future API version can be found before the upgrade. The
+ * log lives in memory and covers the time since the server started.
+ */
+
+export interface DeprecationNotice {
+  /** Tool whose call sent the request, or "(server)" for internal requests */
+  tool: string;
+  /** Store profile, when several are configured */
+  store?: string;
+  /** Operation name or type of the document */
+  operation: string;
+  /** API version Shopify served the request with */
+  apiVersion?: string;
+  reason: string;
+  count: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface DeprecatedRequest {
+  tool?: string;
+  store?: string;
+  document: string;
+  apiVersion?: string;
+  reason: string;
+}
+
+// "query GetProducts(...)" -> "GetProducts"; anonymous documents report their type
+function operationName(document: string): string {
+  const match = document.match(/^\s*(query|mutation|subscription)\b\s*([A-Za-z_][A-Za-z0-9_]*)?/);
+  return match ? match[2] ?? match[1] : "query";
+}
+
+export class ApiDeprecationLog {
+  private notices = new Map<string, DeprecationNotice>();
+
+  record(request: DeprecatedRequest): void {
+    const tool = request.tool ?? "(server)";
+    const operation = operationName(request.document);
+    const key = [tool, request.store ?? "", operation, request.reason].join("\u0000");
+    const now = new Date().toISOString();
+
+    const existing = this.notices.get(key);
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = now;
+      existing.apiVersion = request.apiVersion ?? existing.apiVersion;
+      return;
+    }
+
+    console.error(`[WARN] Deprecated Admin API usage in ${tool} (${operation}): ${request.reason}`);
+    this.notices.set(key, {
+      tool,
+      ...(request.store ? { store: request.store } : {}),
+      operation,
+      apiVersion: request.apiVersion,
+      reason: request.reason,
+      count: 1,
+      firstSeen: now,
+      lastSeen: now,
+    });
+  }
+
+  /**
+   * Every notice so far, most recent first
+   */
+  list(): DeprecationNotice[] {
+    return [...this.notices.values()].sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BulkResultAssembler, csvToVariables, parseCsv, parseJsonLines } from "./bulk-operations.js";
+
+async function* chunksOf(...chunks: string[]): AsyncIterable<string> {
+  yield* chunks;
+}
+
+async function assemble(jsonl: string[]): Promise<{ roots: Record<string, unknown>[]; assembler: BulkResultAssembler }> {
+  const assembler = new BulkResultAssembler();
+  const roots: Record<string, unknown>[] = [];
+  for await (const record of parseJsonLines(chunksOf(...jsonl))) {
+    const completed = assembler.push(record);
+    if (completed) roots.push(completed);
+  }
+  const last = assembler.finish();
+  if (last) roots.push(last);
+  return { roots, assembler };
+}
+
+describe("BulkResultAssembler", () => {
+  it("nests child lines under their parent and hands back each root once the next starts", async () => {
+    const { roots, assembler } = await assemble([
+      '{"id":"gid://shopify/Order/1","name":"#1001"}\n{"id":"gid://shopify/LineItem/11","__parentId":"gid://shopify/Order/1"}\n',
+      '{"id":"gid://shopify/LineItem/12","__parentId":"gid://shopify/Order/1"}\n{"id":"gid://shopify/Order/2","name":"#1002"}\n',
+      '{"id":"gid://shopify/LineItem/21","__parentId":"gid://shopify/Order/2"}',
+    ]);
+
+    assert.deepEqual(roots, [
+      {
+        id: "gid://shopify/Order/1",
+        name: "#1001",
+        lineItems: [{ id: "gid://shopify/LineItem/11" }, { id: "gid://shopify/LineItem/12" }],
+      },
+      { id: "gid://shopify/Order/2", name: "#1002", lineItems: [{ id: "gid://shopify/LineItem/21" }] },
+    ]);
+    assert.equal(assembler.lines, 5);
+    assert.deepEqual(assembler.typeCounts, { Order: 2, LineItem: 3 });
+  });
+
+  it("nests grandchildren and counts lines whose parent is unknown", async () => {
+    const { roots, assembler } = await assemble([
+      '{"id":"gid://shopify/Product/1"}\n',
+      '{"id":"gid://shopify/ProductVariant/2","__parentId":"gid://shopify/Product/1"}\n',
+      '{"__typename":"Metafield","key":"color","__parentId":"gid://shopify/ProductVariant/2"}\n',
+      '{"id":"gid://shopify/ProductVariant/3","__parentId":"gid://shopify/Product/9"}\n',
+    ]);
+
+    assert.deepEqual(roots, [
+      {
+        id: "gid://shopify/Product/1",
+        productVariants: [{ id: "gid://shopify/ProductVariant/2", metafields: [{ __typename: "Metafield", key: "color" }] }],
+      },
+    ]);
+    assert.equal(assembler.orphans, 1);
+  });
+
+  it("reports the line number of invalid JSON", async () => {
+    await assert.rejects(assemble(['{"id":"gid://shopify/Order/1"}\n{"id":']), /Invalid JSON on line 2/);
+  });
+});
+
+describe("parseCsv", () => {
+  it("handles quoted fields, doubled quotes and embedded newlines", () => {
+    assert.deepEqual(parseCsv('id,title\r\n1,"Shirt, blue"\n2,"The ""best""\nhat"\n'), [
+      ["id", "title"],
+      ["1", "Shirt, blue"],
+      ["2", 'The "best"\nhat'],
+    ]);
+  });
+
+  it("keeps empty fields and skips blank lines", () => {
+    assert.deepEqual(parseCsv("a,b,c\n\n1,,3\n,,\n"), [
+      ["a", "b", "c"],
+      ["1", "", "3"],
+    ]);
+  });
+
+  it("reads a last line without a trailing newline", () => {
+    assert.deepEqual(parseCsv("a,b\n1,2"), [["a", "b"], ["1", "2"]]);
+  });
+});
+
+describe("csvToVariables", () => {
+  it("nests dotted headers, parses JSON cells and leaves out empty cells", () => {
+    const rows = parseCsv('input.id,input.title,input.tags\ngid://shopify/Product/1,Shirt,"[""sale""]"\ngid://shopify/Product/2,,\n');
+
+    assert.deepEqual(csvToVariables(rows), [
+      { input: { id: "gid://shopify/Product/1", title: "Shirt", tags: ["sale"] } },
+      { input: { id: "gid://shopify/Product/2" } },
+    ]);
+  });
+
+  it("rejects cells that look like JSON but aren't", () => {
+    assert.throws(() => csvToVariables([["input.tags"], ["[sale"]]), /Invalid JSON in column 'input.tags'/);
+  });
+});
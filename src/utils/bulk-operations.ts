@@ -0,0 +1,397 @@
+import { ShopifyGraphQLClient } from "./graphql-client.js";
+import { sleep } from "./retry.js";
+
+/**
+ * Shared plumbing for Shopify bulk operations
+ *
+ * Bulk operations run asynchronously on Shopify's side and publish their
+ * result as a JSONL file. Every line is one object; objects from nested
+ * connections are emitted as separate lines that point back at their parent
+ * through `__parentId`, always after the parent itself.
+ */
+
+export type BulkOperationStatus = "CANCELED" | "CANCELING" | "COMPLETED" | "CREATED" | "EXPIRED" | "FAILED" | "RUNNING";
+
+export interface BulkOperation {
+  id: string;
+  type: "QUERY" | "MUTATION";
+  status: BulkOperationStatus;
+  errorCode: string | null;
+  createdAt: string;
+  completedAt: string | null;
+  objectCount: string;
+  rootObjectCount: string;
+  fileSize: string | null;
+  url: string | null;
+  partialDataUrl: string | null;
+  query: string;
+}
+
+export const BULK_OPERATION_FIELDS = `
+  id
+  type
+  status
+  errorCode
+  createdAt
+  completedAt
+  objectCount
+  rootObjectCount
+  fileSize
+  url
+  partialDataUrl
+  query
+`;
+
+const FINISHED_STATUSES: BulkOperationStatus[] = ["CANCELED", "COMPLETED", "EXPIRED", "FAILED"];
+
+export function isFinished(operation: BulkOperation): boolean {
+  return FINISHED_STATUSES.includes(operation.status);
+}
+
+/**
+ * Fetch a bulk operation by ID, or the app's current one of the given type
+ */
+export async function getBulkOperation(
+  client: ShopifyGraphQLClient,
+  options: { id?: string; type?: "QUERY" | "MUTATION" }
+): Promise<BulkOperation | null> {
+  const result = options.id
+    ? await client.execute<{ node: BulkOperation | null }>(
+        `query GetBulkOperation($id: ID!) { node(id: $id) { ... on BulkOperation { ${BULK_OPERATION_FIELDS} } } }`,
+        { id: options.id }
+      )
+    : await client.execute<{ currentBulkOperation: BulkOperation | null }>(
+        `query GetCurrentBulkOperation($type: BulkOperationType) { currentBulkOperation(type: $type) { ${BULK_OPERATION_FIELDS} } }`,
+        { type: options.type ?? "QUERY" }
+      );
+
+  if (result.errors) {
+    throw new Error(`GraphQL Errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  const data = result.data as { node?: BulkOperation | null; currentBulkOperation?: BulkOperation | null } | undefined;
+  return (options.id ? data?.node : data?.currentBulkOperation) ?? null;
+}
+
+/**
+ * Poll until the operation finishes or `timeoutMs` elapses; returns the last
+ * observed state either way
+ */
+export async function waitForBulkOperation(
+  client: ShopifyGraphQLClient,
+  id: string,
+  timeoutMs: number,
+  intervalMs = 3000
+): Promise<BulkOperation | null> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    const operation = await getBulkOperation(client, { id });
+    if (!operation || isFinished(operation) || Date.now() + intervalMs > deadline) {
+      return operation;
+    }
+    await sleep(intervalMs);
+  }
+}
+
+/**
+ * Parse a JSONL body chunk by chunk, yielding one object per non-empty line
+ */
+export async function* parseJsonLines(chunks: AsyncIterable<string>): AsyncGenerator<Record<string, unknown>> {
+  let buffer = "";
+  let lineNumber = 0;
+
+  const parse = (line: string): Record<string, unknown> | undefined => {
+    lineNumber++;
+    if (!line.trim()) return undefined;
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on line ${lineNumber}: ${line.slice(0, 100)}`);
+    }
+  };
+
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const record = parse(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      if (record) yield record;
+    }
+  }
+
+  const last = parse(buffer);
+  if (last) yield last;
+}
+
+/**
+ * Resource type of a Shopify GID, e.g. "LineItem" for gid://shopify/LineItem/1
+ */
+export function gidType(id: unknown): string | undefined {
+  if (typeof id !== "string") return undefined;
+  return id.match(/^gid:\/\/shopify\/([^/]+)\//)?.[1];
+}
+
+function childKey(record: Record<string, unknown>): string {
+  const type = gidType(record.id) ?? (typeof record.__typename === "string" ? record.__typename : undefined);
+  if (!type) return "children";
+  return `${type.charAt(0).toLowerCase()}${type.slice(1)}s`;
+}
+
+/**
+ * Rebuilds nested objects from flat bulk operation lines
+ *
+ * Children are attached to their parent under a pluralised type key (a
+ * LineItem under an Order lands in `order.lineItems`). Root objects are
+ * handed back as soon as the next root starts, so a result file can be
+ * processed without holding all of it in memory.
+ */
+export class BulkResultAssembler {
+  /** Lines whose parent was not found among the current root's objects */
+  orphans = 0;
+  lines = 0;
+  readonly typeCounts: Record<string, number> = {};
+  private current?: Record<string, unknown>;
+  private index = new Map<string, Record<string, unknown>>();
+
+  /**
+   * Add one line; returns the previous root object when this line starts a new one
+   */
+  push(record: Record<string, unknown>): Record<string, unknown> | undefined {
+    this.lines++;
+    const type = gidType(record.id) ?? "Unknown";
+    this.typeCounts[type] = (this.typeCounts[type] ?? 0) + 1;
+
+    const parentId = record.__parentId;
+    if (typeof parentId !== "string") {
+      const completed = this.current;
+      this.current = record;
+      this.index.clear();
+      if (typeof record.id === "string") this.index.set(record.id, record);
+      return completed;
+    }
+
+    const parent = this.index.get(parentId);
+    if (!parent) {
+      this.orphans++;
+      return undefined;
+    }
+
+    delete record.__parentId;
+    const key = childKey(record);
+    const siblings = Array.isArray(parent[key]) ? (parent[key] as unknown[]) : [];
+    siblings.push(record);
+    parent[key] = siblings;
+    if (typeof record.id === "string") this.index.set(record.id, record);
+
+    return undefined;
+  }
+
+  /**
+   * Flush the last root object
+   */
+  finish(): Record<string, unknown> | undefined {
+    const completed = this.current;
+    this.current = undefined;
+    this.index.clear();
+    return completed;
+  }
+}
+
+/**
+ * Download a bulk result file and yield reconstructed root objects
+ */
+export async function* streamBulkResult(
+  client: ShopifyGraphQLClient,
+  url: string,
+  assembler = new BulkResultAssembler()
+): AsyncGenerator<Record<string, unknown>> {
+  const response = await client.download(url);
+
+  for await (const record of parseJsonLines(response.body)) {
+    const completed = assembler.push(record);
+    if (completed) yield completed;
+  }
+
+  const last = assembler.finish();
+  if (last) yield last;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, embedded newlines)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value !== ""));
+}
+
+/**
+ * Turn CSV rows into mutation variables
+ *
+ * Header cells name the variable, with dots for nesting (`input.id`,
+ * `input.title`). Empty cells are left out, and cells that start with `[` or
+ * `{` are parsed as JSON so lists and objects can be supplied.
+ */
+export function csvToVariables(rows: string[][]): Record<string, unknown>[] {
+  const [header, ...body] = rows;
+  if (!header) return [];
+
+  return body.map((cells) => {
+    const variables: Record<string, unknown> = {};
+
+    header.forEach((column, index) => {
+      const raw = cells[index] ?? "";
+      if (raw === "") return;
+
+      const trimmed = raw.trim();
+      let value: unknown = raw;
+      if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+        try {
+          value = JSON.parse(trimmed);
+        } catch {
+          throw new Error(`Invalid JSON in column '${column}': ${trimmed.slice(0, 100)}`);
+        }
+      }
+
+      const keys = column.trim().split(".");
+      let target = variables;
+      for (const key of keys.slice(0, -1)) {
+        target[key] = (target[key] as Record<string, unknown>) ?? {};
+        target = target[key] as Record<string, unknown>;
+      }
+      target[keys[keys.length - 1]] = value;
+    });
+
+    return variables;
+  });
+}
+
+/**
+ * Parse a bulk mutation variables file, one variables object per row
+ */
+export function parseVariablesFile(content: string, format: "jsonl" | "csv"): Record<string, unknown>[] {
+  if (format === "csv") {
+    return csvToVariables(parseCsv(content));
+  }
+
+  return content.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+    try {
+      const parsed = JSON.parse(line);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error("expected a JSON object");
+      }
+      return [parsed as Record<string, unknown>];
+    } catch (error) {
+      throw new Error(`Invalid variables on line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+}
+
+export interface BulkMutationFailure {
+  /** 1-based row in the variables file */
+  row: number;
+  input: Record<string, unknown> | null;
+  errors: unknown[];
+}
+
+export interface BulkMutationReport {
+  total: number;
+  succeeded: number;
+  failed: number;
+  failures: BulkMutationFailure[];
+  /** Up to a handful of successful results, for a quick sanity check */
+  sample: unknown[];
+}
+
+/**
+ * Every `userErrors` entry anywhere in a mutation payload
+ */
+export function collectUserErrors(value: unknown, found: unknown[] = []): unknown[] {
+  if (!value || typeof value !== "object") return found;
+
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    if (key === "userErrors" && Array.isArray(child)) {
+      found.push(...child);
+    } else if (child && typeof child === "object") {
+      collectUserErrors(child, found);
+    }
+  }
+  return found;
+}
+
+/**
+ * Download a bulk mutation result file and pair every line with the input row
+ * that produced it (via `__lineNumber`)
+ */
+export async function buildBulkMutationReport(
+  client: ShopifyGraphQLClient,
+  url: string,
+  inputs: Record<string, unknown>[],
+  options: { maxFailures?: number; sampleSize?: number } = {}
+): Promise<BulkMutationReport> {
+  const maxFailures = options.maxFailures ?? 100;
+  const sampleSize = options.sampleSize ?? 3;
+  const report: BulkMutationReport = { total: 0, succeeded: 0, failed: 0, failures: [], sample: [] };
+  const response = await client.download(url);
+
+  for await (const line of parseJsonLines(response.body)) {
+    report.total++;
+    const lineNumber = typeof line.__lineNumber === "number" ? line.__lineNumber : report.total - 1;
+    const errors = [
+      ...(Array.isArray(line.errors) ? line.errors : []),
+      ...collectUserErrors(line.data),
+    ];
+
+    if (errors.length === 0) {
+      report.succeeded++;
+      if (report.sample.length < sampleSize) report.sample.push(line.data);
+      continue;
+    }
+
+    report.failed++;
+    if (report.failures.length < maxFailures) {
+      report.failures.push({ row: lineNumber + 1, input: inputs[lineNumber] ?? null, errors });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,117 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { ShopifyGraphQLClient } from "./graphql-client.js";
+import { MockTransport } from "./transport.js";
+import { ChangeHistory, ChangeRecord, inverseVariables, undoChange } from "./change-history.js";
+
+const PRODUCT_ID = "gid://shopify/Product/1";
+const UPDATE_PRODUCT = "mutation ProductUpdate($input: ProductInput!) { productUpdate(input: $input) { product { id } userErrors { field message } } }";
+const RECORDED_AT = "2026-01-01T00:00:00Z";
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), "shopify-mcp-test-"));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// A store whose product currently looks like `product`
+function storeWith(product: Record<string, unknown>) {
+  const transport = new MockTransport((request) => {
+    const { query } = MockTransport.payload(request);
+    return query.startsWith("mutation")
+      ? MockTransport.json({ data: { productUpdate: { product: { id: PRODUCT_ID }, userErrors: [] } } })
+      : MockTransport.json({ data: { node: { id: PRODUCT_ID, __typename: "Product", ...product } } });
+  });
+  const client = new ShopifyGraphQLClient({
+    config: { accessToken: "shpat_test", storeUrl: "test.myshopify.com", apiUrl: "https://test.myshopify.com/admin/api/2025-07/graphql.json" },
+    transport,
+    retryPolicy: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+    readOnly: false,
+    cache: null,
+  });
+  const mutations = () => transport.requests.map(MockTransport.payload).filter(payload => payload.query.startsWith("mutation"));
+  return { client, mutations };
+}
+
+async function recordTitleChange(name: string): Promise<{ history: ChangeHistory; change: ChangeRecord }> {
+  const history = new ChangeHistory(path.join(dir, name, "changes.json"));
+  const change = await history.add({
+    timestamp: RECORDED_AT,
+    tool: "update_product",
+    target: { id: PRODUCT_ID, type: "Product" },
+    document: UPDATE_PRODUCT,
+    variables: { input: { id: PRODUCT_ID, title: "New title" } },
+    changes: [{ field: "title", before: "Old title", after: "New title" }],
+    notUndoable: [],
+    updatedAt: RECORDED_AT,
+  });
+  return { history, change };
+}
+
+describe("undoChange", () => {
+  it("writes the old values back when nothing changed since", async () => {
+    const { history, change } = await recordTitleChange("clean");
+    const { client, mutations } = storeWith({ title: "New title", updatedAt: RECORDED_AT });
+
+    const outcome = await undoChange(client, history, change);
+
+    assert.equal(outcome.undone, true);
+    assert.deepEqual(mutations().map(payload => payload.variables), [{ input: { id: PRODUCT_ID, title: "Old title" } }]);
+    assert.ok((await history.get(change.id))?.undoneAt);
+  });
+
+  it("refuses when the resource was updated after the change", async () => {
+    const { history, change } = await recordTitleChange("updated");
+    const { client, mutations } = storeWith({ title: "New title", updatedAt: "2026-02-01T00:00:00Z" });
+
+    const outcome = await undoChange(client, history, change);
+
+    assert.equal(outcome.undone, false);
+    assert.match(outcome.message, /was modified after this change/);
+    assert.equal(mutations().length, 0);
+    assert.equal((await history.get(change.id))?.undoneAt, undefined);
+  });
+
+  it("refuses when a changed field no longer holds the value written", async () => {
+    const { history, change } = await recordTitleChange("drifted");
+    const { client, mutations } = storeWith({ title: "Edited elsewhere", updatedAt: RECORDED_AT });
+
+    const outcome = await undoChange(client, history, change);
+
+    assert.equal(outcome.undone, false);
+    assert.match(outcome.message, /Fields changed since: title/);
+    assert.equal(mutations().length, 0);
+  });
+
+  it("refuses a change that was already undone", async () => {
+    const { history, change } = await recordTitleChange("twice");
+    const { client, mutations } = storeWith({ title: "New title", updatedAt: RECORDED_AT });
+
+    const outcome = await undoChange(client, history, { ...change, undoneAt: RECORDED_AT });
+
+    assert.equal(outcome.undone, false);
+    assert.match(outcome.message, /already undone/);
+    assert.equal(mutations().length, 0);
+  });
+});
+
+describe("inverseVariables", () => {
+  it("puts nested fields back without touching the recorded variables", async () => {
+    const { change } = await recordTitleChange("inverse");
+    const nested: ChangeRecord = {
+      ...change,
+      variables: { input: { id: PRODUCT_ID, seo: { title: "New SEO" } } },
+      changes: [{ field: "seo.title", before: "Old SEO", after: "New SEO" }],
+    };
+
+    assert.deepEqual(inverseVariables(nested), { input: { id: PRODUCT_ID, seo: { title: "Old SEO" } } });
+    assert.deepEqual(nested.variables, { input: { id: PRODUCT_ID, seo: { title: "New SEO" } } });
+  });
+});
@@ -0,0 +1,268 @@
+import { randomBytes } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import { ShopifyGraphQLClient } from "./graphql-client.js";
+import { collectUserErrors } from "./bulk-operations.js";
+import { FieldChange, findTarget, previewMutation } from "./dry-run.js";
+import { dataDirFromEnv } from "./journal.js";
+import { currentStore, runWithMutationHook, runWithMutationLog } from "./request-context.js";
+import { ToolMiddleware } from "./tool-registry.js";
+
+/**
+ * Local change history for reversible updates
+ *
+ * Before an undoable tool sends its mutation, the fields it is about to
+ * change are read from the store (the same read a dry run does). If the
+ * update succeeds, the old and new values are kept in `changes.json` in the
+ * data directory together with the resource's new `updatedAt`, so the change
+ * can later be replayed in reverse as long as nobody touched the resource
+ * since.
+ *
+ * Environment overrides:
+ *   SHOPIFY_MCP_CHANGE_HISTORY_SIZE=200   # Changes to keep
+ */
+
+export const UNDOABLE_TOOLS = ["update_product", "update_collection", "update_page", "update_customer"];
+
+export interface ChangeRecord {
+  id: string;
+  timestamp: string;
+  tool: string;
+  store?: string;
+  target: { id: string; type: string };
+  /** The mutation as it was sent */
+  document: string;
+  variables: Record<string, unknown>;
+  /** Field paths (relative to the input object) with their old and new values */
+  changes: FieldChange[];
+  /** Inputs that couldn't be read beforehand and therefore can't be undone */
+  notUndoable: string[];
+  /** `updatedAt` of the resource right after the change */
+  updatedAt?: string;
+  undoneAt?: string;
+}
+
+export class ChangeHistory {
+  readonly file: string;
+  private limit: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(file: string, limit = 200) {
+    this.file = file;
+    this.limit = limit;
+  }
+
+  static fromEnv(): ChangeHistory {
+    const size = Number(process.env.SHOPIFY_MCP_CHANGE_HISTORY_SIZE ?? 200);
+    if (!Number.isInteger(size) || size <= 0) {
+      console.error(`[WARN] Ignoring invalid SHOPIFY_MCP_CHANGE_HISTORY_SIZE: ${process.env.SHOPIFY_MCP_CHANGE_HISTORY_SIZE}`);
+    }
+    return new ChangeHistory(path.join(dataDirFromEnv(), "changes.json"), Number.isInteger(size) && size > 0 ? size : 200);
+  }
+
+  private async load(): Promise<ChangeRecord[]> {
+    try {
+      const parsed = JSON.parse(await readFile(this.file, "utf8"));
+      return Array.isArray(parsed.changes) ? parsed.changes : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw new Error(`Could not read change history (${this.file}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async save(changes: ChangeRecord[]): Promise<void> {
+    await mkdir(path.dirname(this.file), { recursive: true });
+    const temp = `${this.file}.tmp`;
+    await writeFile(temp, JSON.stringify({ changes }, null, 2), "utf8");
+    await rename(temp, this.file);
+  }
+
+  // Read-modify-write steps run one at a time
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn, fn);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  add(record: Omit<ChangeRecord, "id">): Promise<ChangeRecord> {
+    return this.exclusive(async () => {
+      const entry: ChangeRecord = { id: `chg_${randomBytes(6).toString("hex")}`, ...record };
+      const changes = [entry, ...(await this.load())].slice(0, this.limit);
+      await this.save(changes);
+      return entry;
+    });
+  }
+
+  update(id: string, patch: Partial<ChangeRecord>): Promise<void> {
+    return this.exclusive(async () => {
+      const changes = await this.load();
+      const index = changes.findIndex(change => change.id === id);
+      if (index === -1) return;
+      changes[index] = { ...changes[index], ...patch };
+      await this.save(changes);
+    });
+  }
+
+  async get(id: string): Promise<ChangeRecord | undefined> {
+    return (await this.list()).find(change => change.id === id);
+  }
+
+  /**
+   * Recorded changes, newest first
+   */
+  list(): Promise<ChangeRecord[]> {
+    return this.exclusive(() => this.load());
+  }
+}
+
+async function readUpdatedAt(client: ShopifyGraphQLClient, id: string, type: string): Promise<string | undefined> {
+  const result = await client.execute<{ node: { updatedAt?: string } | null }>(
+    `query ChangeHistoryUpdatedAt($id: ID!) { node(id: $id) { ... on ${type} { updatedAt } } }`,
+    { id }
+  );
+  return (result.data as { node: { updatedAt?: string } | null } | undefined)?.node?.updatedAt;
+}
+
+/**
+ * Record a pre-image for every successful call of an undoable tool
+ */
+export function changeHistoryMiddleware(client: ShopifyGraphQLClient, history: ChangeHistory): ToolMiddleware {
+  return (tool) => {
+    if (!UNDOABLE_TOOLS.includes(tool.name)) {
+      return tool;
+    }
+
+    return {
+      ...tool,
+      handler: async (...params) => {
+        let before: Awaited<ReturnType<typeof previewMutation>> | undefined;
+
+        const { result, mutations } = await runWithMutationLog(() =>
+          runWithMutationHook(async (mutation) => {
+            before ??= await previewMutation(client, mutation).catch(() => undefined);
+          }, async () => tool.handler(...params))
+        );
+
+        const sent = mutations[0];
+        const failed = !sent || result.isError || !!sent.errors || collectUserErrors(sent.data).length > 0;
+        if (failed || !before?.target || !before.currentState || before.diff.length === 0) {
+          return result;
+        }
+
+        try {
+          const record = await history.add({
+            timestamp: new Date().toISOString(),
+            tool: tool.name,
+            store: currentStore(),
+            target: before.target,
+            document: sent.document,
+            variables: sent.variables,
+            changes: before.diff,
+            notUndoable: before.notCompared,
+            updatedAt: await readUpdatedAt(client, before.target.id, before.target.type),
+          });
+
+          return {
+            ...result,
+            content: [
+              ...result.content,
+              { type: "text", text: `Change recorded as ${record.id}. Use undo_change to revert it.` },
+            ],
+            _meta: { ...result._meta, changeId: record.id },
+          };
+        } catch (error) {
+          console.error("[ERROR] Failed to record change history:", error instanceof Error ? error.message : String(error));
+          return result;
+        }
+      },
+    };
+  };
+}
+
+function setPath(target: Record<string, unknown>, pathParts: string[], value: unknown): void {
+  let node = target;
+  for (const part of pathParts.slice(0, -1)) {
+    if (!node[part] || typeof node[part] !== "object") node[part] = {};
+    node = node[part] as Record<string, unknown>;
+  }
+  node[pathParts[pathParts.length - 1]] = value;
+}
+
+/**
+ * Variables that put every changed field back to its recorded old value
+ */
+export function inverseVariables(change: ChangeRecord): Record<string, unknown> {
+  const variables = structuredClone(change.variables);
+  const target = findTarget(variables);
+  if (!target) {
+    throw new Error(`Cannot locate ${change.target.id} in the recorded variables`);
+  }
+
+  let container = variables;
+  for (const part of target.path) {
+    container = container[part] as Record<string, unknown>;
+  }
+
+  for (const { field, before } of change.changes) {
+    setPath(container, field.split("."), before);
+  }
+  return variables;
+}
+
+/**
+ * Revert a recorded change
+ *
+ * Refuses when the resource was modified after the change, either according
+ * to its `updatedAt` or because a changed field no longer holds the value we
+ * wrote.
+ */
+export async function undoChange(
+  client: ShopifyGraphQLClient,
+  history: ChangeHistory,
+  change: ChangeRecord
+): Promise<{ undone: boolean; message: string; data?: unknown }> {
+  if (change.undoneAt) {
+    return { undone: false, message: `Change ${change.id} was already undone at ${change.undoneAt}` };
+  }
+
+  const inverse = { document: change.document, variables: inverseVariables(change) };
+  const current = await previewMutation(client, inverse);
+  if (!current.currentState) {
+    return { undone: false, message: current.stateError ?? `${change.target.type} ${change.target.id} not found` };
+  }
+
+  const updatedAt = current.currentState.updatedAt;
+  if (change.updatedAt && typeof updatedAt === "string" && updatedAt !== change.updatedAt) {
+    return {
+      undone: false,
+      message: `${change.target.type} ${change.target.id} was modified after this change (updatedAt ${change.updatedAt} -> ${updatedAt}); refusing to undo`,
+    };
+  }
+
+  // What each field holds now, read by the preview of the inverse mutation
+  const now = new Map<string, unknown>(current.diff.map(entry => [entry.field, entry.before]));
+  for (const field of current.unchanged) {
+    now.set(field, change.changes.find(entry => entry.field === field)?.before);
+  }
+  const drifted = change.changes.filter(
+    entry => now.has(entry.field) && JSON.stringify(now.get(entry.field) ?? null) !== JSON.stringify(entry.after ?? null)
+  );
+  if (drifted.length > 0) {
+    return {
+      undone: false,
+      message: `Fields changed since: ${drifted.map(entry => entry.field).join(", ")}; refusing to undo`,
+    };
+  }
+
+  const result = await client.execute(inverse.document, inverse.variables);
+  if (result.errors) {
+    throw new Error(`GraphQL Errors: ${JSON.stringify(result.errors)}`);
+  }
+  const userErrors = collectUserErrors(result.data);
+  if (userErrors.length > 0) {
+    return { undone: false, message: `Undo failed: ${JSON.stringify(userErrors)}`, data: result.data };
+  }
+
+  await history.update(change.id, { undoneAt: new Date().toISOString() });
+  return { undone: true, message: `Reverted ${change.changes.map(entry => entry.field).join(", ")} on ${change.target.id}`, data: result.data };
+}
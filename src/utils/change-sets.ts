@@ -0,0 +1,285 @@
+import { createHash } from "crypto";
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { collectUserErrors } from "./bulk-operations.js";
+import { FieldChange, MutationPreview } from "./dry-run.js";
+import { dataDirFromEnv } from "./journal.js";
+import { ToolRegistration } from "./tool-registry.js";
+
+/**
+ * Named change sets: batches of tool calls planned together and applied in order
+ *
+ * A change set is a list of steps, each one a call of a registered mutation
+ * tool with its arguments. Steps run through the tool exactly as if the
+ * client had called it (same validation, dry run, journal and change
+ * history), so a change set can only do what the tools can. Every change set
+ * is kept as `change-sets/<name>.json` in the data directory, where it can be
+ * reviewed or edited by hand before it is applied.
+ */
+
+export type ChangeSetStatus = "draft" | "applied" | "partially_applied" | "failed";
+export type StepStatus = "pending" | "applied" | "failed";
+
+export type StepPreview = Pick<MutationPreview, "target" | "diff" | "unchanged" | "notCompared" | "stateError">;
+
+export interface ChangeSetStep {
+  tool: string;
+  arguments: Record<string, unknown>;
+  note?: string;
+  status: StepStatus;
+  /** What the step would change, as of the last review */
+  preview?: StepPreview[];
+  /** Why the step couldn't be previewed */
+  previewError?: string;
+  appliedAt?: string;
+  /** Tool output of the last attempt (first text item) */
+  result?: string;
+  error?: string;
+}
+
+export interface ChangeSet {
+  name: string;
+  description?: string;
+  /** Store profile steps run against unless they name one */
+  store?: string;
+  status: ChangeSetStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Cleared whenever steps are added or removed */
+  reviewedAt?: string;
+  /** stepsHash of the steps as reviewed, so hand edits also require a new review */
+  reviewedHash?: string;
+  steps: ChangeSetStep[];
+}
+
+export interface ConsolidatedChange {
+  target: { id: string; type: string };
+  /** Net change per field: the value before the first step and after the last one */
+  fields: Array<FieldChange & { steps: number[] }>;
+}
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export class ChangeSetStore {
+  readonly dir: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  static fromEnv(): ChangeSetStore {
+    return new ChangeSetStore(path.join(dataDirFromEnv(), "change-sets"));
+  }
+
+  file(name: string): string {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid change set name '${name}': use lowercase letters, digits, '-' and '_'`);
+    }
+    return path.join(this.dir, `${name}.json`);
+  }
+
+  private async load(name: string): Promise<ChangeSet | undefined> {
+    const file = this.file(name);
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as ChangeSet;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw new Error(`Could not read change set (${file}): ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async write(changeSet: ChangeSet): Promise<void> {
+    const file = this.file(changeSet.name);
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(changeSet, null, 2), "utf8");
+    await rename(`${file}.tmp`, file);
+  }
+
+  // Read-modify-write steps run one at a time
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn, fn);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  create(name: string, description?: string, store?: string): Promise<ChangeSet> {
+    return this.exclusive(async () => {
+      if (await this.load(name)) {
+        throw new Error(`Change set '${name}' already exists`);
+      }
+      const now = new Date().toISOString();
+      const changeSet: ChangeSet = {
+        name,
+        ...(description ? { description } : {}),
+        ...(store ? { store } : {}),
+        status: "draft",
+        createdAt: now,
+        updatedAt: now,
+        steps: [],
+      };
+      await this.write(changeSet);
+      return changeSet;
+    });
+  }
+
+  get(name: string): Promise<ChangeSet | undefined> {
+    return this.exclusive(() => this.load(name));
+  }
+
+  /**
+   * Apply `update` to the stored change set and save the result
+   */
+  update(name: string, update: (changeSet: ChangeSet) => void): Promise<ChangeSet> {
+    return this.exclusive(async () => {
+      const changeSet = await this.load(name);
+      if (!changeSet) {
+        throw new Error(`Unknown change set '${name}'`);
+      }
+      update(changeSet);
+      changeSet.updatedAt = new Date().toISOString();
+      await this.write(changeSet);
+      return changeSet;
+    });
+  }
+
+  delete(name: string): Promise<boolean> {
+    return this.exclusive(() => unlink(this.file(name)).then(() => true, () => false));
+  }
+
+  list(): Promise<ChangeSet[]> {
+    return this.exclusive(async () => {
+      const files = await readdir(this.dir).catch(() => [] as string[]);
+      const changeSets: ChangeSet[] = [];
+      for (const file of files.filter(file => file.endsWith(".json"))) {
+        const changeSet = await this.load(file.slice(0, -".json".length)).catch(() => undefined);
+        if (changeSet) changeSets.push(changeSet);
+      }
+      return changeSets.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    });
+  }
+}
+
+/**
+ * Fingerprint of the planned calls (tools and arguments, in order); status
+ * and results recorded by review and apply don't change it
+ */
+export function stepsHash(steps: ChangeSetStep[]): string {
+  const plan = steps.map(step => [step.tool, step.arguments]);
+  return createHash("sha256").update(JSON.stringify(plan)).digest("hex");
+}
+
+/**
+ * Validate and normalize arguments for `tool` the way the SDK does before
+ * calling a handler
+ */
+export function parseToolArguments(tool: ToolRegistration, args: Record<string, unknown>): Record<string, unknown> {
+  const schema = z.object(tool.config.inputSchema ?? {});
+  const parsed = schema.safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new Error(`Invalid arguments for ${tool.name}: ${issues.join("; ")}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Call a registered tool's handler with already validated arguments
+ */
+export function invokeTool(
+  tool: ToolRegistration,
+  args: Record<string, unknown>,
+  extra: unknown
+): Promise<CallToolResult> {
+  return Promise.resolve(tool.config.inputSchema ? tool.handler(args, extra) : tool.handler(extra));
+}
+
+function firstText(result: CallToolResult): string {
+  const item = result.content.find(entry => entry.type === "text");
+  return item && item.type === "text" ? item.text : "";
+}
+
+/**
+ * Why a tool call failed, or undefined when it succeeded
+ *
+ * Besides `isError`, tools report failures as "Error: ..." text or as
+ * mutation userErrors inside a successful response. A dry-run preview is a
+ * failure too: nothing was sent.
+ */
+export function toolCallFailure(result: CallToolResult): string | undefined {
+  const text = firstText(result);
+  if (result.isError || /^(Error|GraphQL Errors):/.test(text)) {
+    return text || "Tool reported an error";
+  }
+
+  try {
+    const body = JSON.parse(text);
+    if (body?.confirmationRequired) {
+      return "The tool asked for confirmation instead of running";
+    }
+    if (body?.dryRun === true) {
+      return "The tool returned a dry-run preview; nothing was sent";
+    }
+    const userErrors = collectUserErrors(body);
+    if (userErrors.length > 0) {
+      return `User errors: ${JSON.stringify(userErrors)}`;
+    }
+  } catch {
+    // Not JSON, so there are no userErrors to look at
+  }
+  return undefined;
+}
+
+/**
+ * Previews from a dry-run result (see dryRunMiddleware)
+ */
+export function dryRunPreviews(result: CallToolResult): StepPreview[] | undefined {
+  try {
+    const body = JSON.parse(firstText(result));
+    if (body?.dryRun !== true || !Array.isArray(body.mutations)) return undefined;
+    return (body.mutations as MutationPreview[]).map(({ target, diff, unchanged, notCompared, stateError }) => ({
+      target,
+      diff,
+      unchanged,
+      notCompared,
+      ...(stateError ? { stateError } : {}),
+    }));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Net field changes per resource across all reviewed steps
+ *
+ * Steps are previewed independently against the current store, so when two
+ * steps touch the same field the earlier step's "before" and the later step's
+ * "after" are kept.
+ */
+export function consolidateChanges(steps: ChangeSetStep[]): ConsolidatedChange[] {
+  const byTarget = new Map<string, ConsolidatedChange>();
+
+  steps.forEach((step, index) => {
+    for (const preview of step.preview ?? []) {
+      if (!preview.target) continue;
+      let entry = byTarget.get(preview.target.id);
+      if (!entry) {
+        entry = { target: preview.target, fields: [] };
+        byTarget.set(preview.target.id, entry);
+      }
+      for (const change of preview.diff) {
+        const existing = entry.fields.find(field => field.field === change.field);
+        if (existing) {
+          existing.after = change.after;
+          existing.steps.push(index + 1);
+        } else {
+          entry.fields.push({ ...change, steps: [index + 1] });
+        }
+      }
+    }
+  });
+
+  return [...byTarget.values()];
+}
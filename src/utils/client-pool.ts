@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { GraphQLResponse, ShopifyConfig, StoreProfile } from "../types/index.js";
+import { StoreConfiguration } from "../config/stores.js";
+import { ApiVersionInfo, ShopifyClientOptions, ShopifyGraphQLClient } from "./graphql-client.js";
+import { StreamingTransportResponse } from "./transport.js";
+import { ThrottleBudget } from "./throttle.js";
+import { currentStore, runWithStore } from "./request-context.js";
+import { ToolMiddleware } from "./tool-registry.js";
+
+/**
+ * One ShopifyGraphQLClient per store profile, created on first use so every
+ * shop gets its own connection settings and query cost bucket
+ */
+export class ShopifyClientPool {
+  readonly defaultStore: string;
+  private profiles = new Map<string, StoreProfile>();
+  private clients = new Map<string, ShopifyGraphQLClient>();
+  private clientOptions: Omit<ShopifyClientOptions, "config">;
+
+  constructor(configuration: StoreConfiguration, clientOptions: Omit<ShopifyClientOptions, "config"> = {}) {
+    configuration.profiles.forEach(profile => this.profiles.set(profile.name, profile));
+    this.defaultStore = configuration.defaultStore;
+    this.clientOptions = clientOptions;
+  }
+
+  get size(): number {
+    return this.profiles.size;
+  }
+
+  names(): string[] {
+    return [...this.profiles.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.profiles.has(name);
+  }
+
+  profile(name: string): StoreProfile {
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new Error(`Unknown store '${name}'. Available stores: ${this.names().join(", ")}`);
+    }
+    return profile;
+  }
+
+  /**
+   * Client for `name`, or for the default store
+   */
+  get(name: string = this.defaultStore): ShopifyGraphQLClient {
+    let client = this.clients.get(name);
+    if (!client) {
+      const { name: _name, ...config } = this.profile(name);
+      client = new ShopifyGraphQLClient({ ...this.clientOptions, config });
+      this.clients.set(name, client);
+    }
+    return client;
+  }
+}
+
+/**
+ * Client handed to the registrars when several stores are configured
+ *
+ * Every call is forwarded to the pool client of the store selected for the
+ * current tool call (see storeSelectorMiddleware), falling back to the
+ * default store.
+ */
+export class StoreRoutingClient extends ShopifyGraphQLClient {
+  private pool: ShopifyClientPool;
+
+  constructor(pool: ShopifyClientPool) {
+    const { name: _name, ...config } = pool.profile(pool.defaultStore);
+    super({ config });
+    this.pool = pool;
+  }
+
+  private target(): ShopifyGraphQLClient {
+    return this.pool.get(currentStore() ?? this.pool.defaultStore);
+  }
+
+  override execute<T>(query: string, variables?: Record<string, unknown>): Promise<GraphQLResponse<T>> {
+    return this.target().execute<T>(query, variables);
+  }
+
+  override download(url: string): Promise<StreamingTransportResponse> {
+    return this.target().download(url);
+  }
+
+  override uploadStaged(
+    url: string,
+    parameters: Array<{ name: string; value: string }>,
+    file: { filename: string; contentType: string; content: string }
+  ): Promise<void> {
+    return this.target().uploadStaged(url, parameters, file);
+  }
+
+  override getThrottleStatus(): ThrottleBudget | undefined {
+    return this.target().getThrottleStatus();
+  }
+
+  override getConfig(): ShopifyConfig {
+    return this.target().getConfig();
+  }
+
+  override getApiVersion(): ApiVersionInfo {
+    return this.target().getApiVersion();
+  }
+}
+
+/**
+ * Add an optional `store` argument to every tool and run the call against
+ * that store's client
+ */
+export function storeSelectorMiddleware(pool: ShopifyClientPool): ToolMiddleware {
+  const storeArgument = z.string().optional().describe(
+    `Store profile to run against (${pool.names().join(", ")}; default: ${pool.defaultStore})`
+  );
+
+  return (tool) => {
+    const hadInputSchema = tool.config.inputSchema !== undefined;
+
+    return {
+      ...tool,
+      config: {
+        ...tool.config,
+        inputSchema: { ...tool.config.inputSchema, store: storeArgument },
+      },
+      handler: async (args: Record<string, unknown>, extra: unknown) => {
+        const { store, ...rest } = args;
+        const selected = typeof store === "string" && store ? store.toLowerCase() : pool.defaultStore;
+
+        if (!pool.has(selected)) {
+          return {
+            content: [{ type: "text", text: `Error: Unknown store '${selected}'. Available stores: ${pool.names().join(", ")}` }],
+            isError: true,
+          };
+        }
+
+        return runWithStore(selected, async () =>
+          hadInputSchema ? tool.handler(rest, extra) : tool.handler(extra)
+        );
+      },
+    };
+  };
+}
@@ -0,0 +1,109 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ShopifyGraphQLClient } from "./graphql-client.js";
+import { MockTransport } from "./transport.js";
+import { confirmationMiddleware } from "./confirmation.js";
+import { errorResult, jsonResult } from "./tool-factory.js";
+import { ToolRegistration } from "./tool-registry.js";
+
+const DELETE_PRODUCT = "mutation ProductDelete($input: ProductDeleteInput!) { productDelete(input: $input) { deletedProductId } }";
+const PRODUCT_ID = "gid://shopify/Product/1";
+
+let transport: MockTransport;
+let client: ShopifyGraphQLClient;
+
+// The store answers the current-state read of a dry run and the delete itself
+beforeEach(() => {
+  transport = new MockTransport((request) => {
+    const { query } = MockTransport.payload(request);
+    return query.startsWith("mutation")
+      ? MockTransport.json({ data: { productDelete: { deletedProductId: PRODUCT_ID } } })
+      : MockTransport.json({ data: { node: { id: PRODUCT_ID, __typename: "Product", title: "Shirt", handle: "shirt" } } });
+  });
+  client = new ShopifyGraphQLClient({
+    config: { accessToken: "shpat_test", storeUrl: "test.myshopify.com", apiUrl: "https://test.myshopify.com/admin/api/2025-07/graphql.json" },
+    transport,
+    retryPolicy: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+    readOnly: false,
+    cache: null,
+  });
+});
+
+function guardedTool(ttlMs = 60000): ToolRegistration {
+  const tool: ToolRegistration = {
+    name: "delete_product",
+    config: { description: "Delete a product", inputSchema: { id: z.string() } },
+    handler: async ({ id }: { id: string }) => {
+      try {
+        return jsonResult((await client.execute(DELETE_PRODUCT, { input: { id } })).data);
+      } catch (error) {
+        return errorResult(error);
+      }
+    },
+  };
+  const settings = { tools: new Set(["delete_product"]), ttlMs, elicit: false };
+  return confirmationMiddleware({} as McpServer, client, settings, false)(tool)!;
+}
+
+function body(result: CallToolResult): Record<string, any> {
+  return JSON.parse((result.content[0] as { text: string }).text);
+}
+
+function mutationsSent(): number {
+  return transport.requests.filter(request => MockTransport.payload(request).query.startsWith("mutation")).length;
+}
+
+describe("confirmationMiddleware", () => {
+  it("answers the first call with an impact summary and a token instead of deleting", async () => {
+    const tool = guardedTool();
+
+    const first = body(await tool.handler({ id: PRODUCT_ID }, {}));
+
+    assert.equal(first.confirmationRequired, true);
+    assert.equal(typeof first.confirmationToken, "string");
+    assert.deepEqual(first.impact.target, { id: PRODUCT_ID, type: "Product" });
+    assert.equal(first.impact.currentState.title, "Shirt");
+    assert.equal(mutationsSent(), 0);
+  });
+
+  it("runs the tool when the token comes back with the same arguments, once", async () => {
+    const tool = guardedTool();
+    const { confirmationToken } = body(await tool.handler({ id: PRODUCT_ID }, {}));
+
+    const confirmed = await tool.handler({ id: PRODUCT_ID, confirmationToken }, {});
+    assert.equal(confirmed.isError, undefined);
+    assert.deepEqual(body(confirmed), { productDelete: { deletedProductId: PRODUCT_ID } });
+    assert.equal(mutationsSent(), 1);
+
+    const replayed = await tool.handler({ id: PRODUCT_ID, confirmationToken }, {});
+    assert.equal(replayed.isError, true);
+    assert.match(body(replayed).error, /unknown or expired/);
+    assert.equal(mutationsSent(), 1);
+  });
+
+  it("refuses a token issued for different arguments", async () => {
+    const tool = guardedTool();
+    const { confirmationToken } = body(await tool.handler({ id: PRODUCT_ID }, {}));
+
+    const result = await tool.handler({ id: "gid://shopify/Product/2", confirmationToken }, {});
+
+    assert.equal(result.isError, true);
+    assert.match(body(result).error, /different call/);
+    assert.equal(mutationsSent(), 0);
+  });
+
+  it("refuses an expired token", async () => {
+    const tool = guardedTool(1);
+    const { confirmationToken } = body(await tool.handler({ id: PRODUCT_ID }, {}));
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    const result = await tool.handler({ id: PRODUCT_ID, confirmationToken }, {});
+
+    assert.equal(result.isError, true);
+    assert.match(body(result).error, /unknown or expired/);
+    assert.equal(mutationsSent(), 0);
+  });
+});
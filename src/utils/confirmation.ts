@@ -0,0 +1,199 @@
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ShopifyGraphQLClient } from "./graphql-client.js";
+import { currentStore, runAsDryRun } from "./request-context.js";
+import { ToolMiddleware } from "./tool-registry.js";
+import { MutationPreview, previewMutation } from "./dry-run.js";
+import { jsonResult } from "./tool-factory.js";
+
+/**
+ * Two-step confirmation for destructive tools
+ *
+ * The first call of a guarded tool doesn't touch the store. It runs the tool
+ * as a dry run, reads the target's current state and answers with an impact
+ * summary plus a short-lived token. Only a second call with the same
+ * arguments and that token executes the mutation. Clients that support MCP
+ * elicitation are asked directly instead.
+ *
+ * Environment overrides:
+ *   SHOPIFY_MCP_CONFIRM_TOOLS=delete_product,cancel_order   # Guarded tools ("none" disables)
+ *   SHOPIFY_MCP_CONFIRM_TTL_SECONDS=300                     # Token lifetime
+ *   SHOPIFY_MCP_CONFIRM_ELICIT=false                        # Always use tokens
+ */
+
+export const DEFAULT_CONFIRM_TOOLS = [
+  "delete_product",
+  "delete_customer",
+  "delete_theme",
+  "request_customer_data_erasure",
+  "cancel_order",
+  "debit_store_credit_account",
+];
+
+export interface ConfirmationSettings {
+  tools: Set<string>;
+  ttlMs: number;
+  elicit: boolean;
+}
+
+export function confirmationSettingsFromEnv(): ConfirmationSettings {
+  const list = process.env.SHOPIFY_MCP_CONFIRM_TOOLS?.trim();
+  const tools = list === undefined || list === ""
+    ? DEFAULT_CONFIRM_TOOLS
+    : list.toLowerCase() === "none"
+      ? []
+      : list.split(",").map(name => name.trim()).filter(Boolean);
+
+  const ttlSeconds = Number(process.env.SHOPIFY_MCP_CONFIRM_TTL_SECONDS ?? 300);
+  if (!Number.isFinite(ttlSeconds) || ttlSeconds <= 0) {
+    console.error(`[WARN] Ignoring invalid SHOPIFY_MCP_CONFIRM_TTL_SECONDS: ${process.env.SHOPIFY_MCP_CONFIRM_TTL_SECONDS}`);
+  }
+
+  return {
+    tools: new Set(tools),
+    ttlMs: (Number.isFinite(ttlSeconds) && ttlSeconds > 0 ? ttlSeconds : 300) * 1000,
+    elicit: process.env.SHOPIFY_MCP_CONFIRM_ELICIT?.trim().toLowerCase() !== "false",
+  };
+}
+
+interface PendingConfirmation {
+  tool: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+// Key-order independent JSON, so equal arguments always fingerprint the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function summarize(preview: MutationPreview): Record<string, unknown> {
+  return {
+    target: preview.target,
+    currentState: preview.currentState,
+    variables: preview.variables,
+    ...(preview.stateError ? { stateError: preview.stateError } : {}),
+  };
+}
+
+/**
+ * Require confirmation before the tools in `settings.tools` run
+ *
+ * `server` is the real server (not the registry wrapper); it is used to check
+ * the client's elicitation support and to send the request.
+ */
+export function confirmationMiddleware(
+  server: McpServer,
+  client: ShopifyGraphQLClient,
+  settings: ConfirmationSettings,
+  dryRunAlways: boolean
+): ToolMiddleware {
+  const pending = new Map<string, PendingConfirmation>();
+  const tokenArgument = z.string().optional().describe(
+    "Token returned by the first call; repeat the call with identical arguments plus this token to execute"
+  );
+
+  const issue = (tool: string, fingerprint: string) => {
+    const now = Date.now();
+    for (const [token, entry] of pending) {
+      if (entry.expiresAt <= now) pending.delete(token);
+    }
+
+    const token = randomBytes(8).toString("hex");
+    const expiresAt = now + settings.ttlMs;
+    pending.set(token, { tool, fingerprint, expiresAt });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  };
+
+  const redeem = (token: string, tool: string, fingerprint: string): string | undefined => {
+    const entry = pending.get(token);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      pending.delete(token);
+      return "Confirmation token is unknown or expired. Call the tool again without a token to get a new one.";
+    }
+    if (entry.tool !== tool || entry.fingerprint !== fingerprint) {
+      return "Confirmation token was issued for a different call. Repeat the exact arguments of the first call.";
+    }
+    pending.delete(token);
+    return undefined;
+  };
+
+  return (tool) => {
+    if (!settings.tools.has(tool.name)) {
+      return tool;
+    }
+
+    const hadInputSchema = tool.config.inputSchema !== undefined;
+
+    return {
+      ...tool,
+      config: {
+        ...tool.config,
+        description: `${tool.config.description ?? ""} Requires confirmation: the first call returns an impact summary and a confirmation token.`.trim(),
+        inputSchema: { ...tool.config.inputSchema, confirmationToken: tokenArgument },
+      },
+      handler: async (args: Record<string, unknown>, extra: { requestId?: string | number }) => {
+        const { confirmationToken, ...rest } = args;
+        const call = async () => (hadInputSchema ? tool.handler(rest, extra) : tool.handler(extra));
+
+        // Dry runs never reach the store, so there is nothing to confirm
+        if (dryRunAlways || rest.dryRun === true) {
+          return call();
+        }
+
+        const fingerprint = stableStringify({ store: currentStore() ?? null, args: rest });
+
+        if (typeof confirmationToken === "string" && confirmationToken) {
+          const problem = redeem(confirmationToken, tool.name, fingerprint);
+          return problem ? jsonResult({ error: problem }, true) : call();
+        }
+
+        // Let the handler run up to its mutation to learn what it would change
+        const { result, mutations } = await runAsDryRun(call);
+        if (mutations.length === 0) {
+          return result;
+        }
+        const impact = summarize(await previewMutation(client, mutations[0]));
+
+        if (settings.elicit && server.server.getClientCapabilities()?.elicitation) {
+          const answer = await server.server.elicitInput(
+            {
+              message: `Confirm ${tool.name}? This cannot be undone.\n\n${JSON.stringify(impact, null, 2)}`,
+              requestedSchema: {
+                type: "object",
+                properties: {
+                  confirm: { type: "boolean", title: "Confirm", description: `Run ${tool.name}` },
+                },
+                required: ["confirm"],
+              },
+            },
+            { relatedRequestId: extra.requestId }
+          );
+
+          if (answer.action === "accept" && answer.content?.confirm === true) {
+            return call();
+          }
+          return jsonResult({ cancelled: true, tool: tool.name, message: "The user did not confirm; nothing was changed" });
+        }
+
+        const { token, expiresAt } = issue(tool.name, fingerprint);
+        return jsonResult({
+          confirmationRequired: true,
+          tool: tool.name,
+          message: `Nothing was changed. Review the impact, then call ${tool.name} again with the same arguments and confirmationToken to proceed.`,
+          impact,
+          confirmationToken: token,
+          expiresAt,
+        });
+      },
+    };
+  };
+}
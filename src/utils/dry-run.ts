@@ -0,0 +1,339 @@
+import { z } from "zod";
+import { ShopifyGraphQLClient } from "./graphql-client.js";
+import { CapturedMutation, runAsDryRun } from "./request-context.js";
+import { ToolMiddleware } from "./tool-registry.js";
+import { getToolDefinition } from "./scope-mapper.js";
+import { gidType } from "./bulk-operations.js";
+
+/**
+ * Dry runs for mutation tools
+ *
+ * A dry run executes the tool's handler as usual, but the client records the
+ * first mutation instead of sending it (see runAsDryRun). The preview then
+ * reads the current state of the resource the mutation targets and compares
+ * it field by field with the values the mutation would write.
+ *
+ * Enabled per call with `dryRun: true`, or for every call with
+ * SHOPIFY_MCP_DRY_RUN=true.
+ */
+
+export function dryRunFromEnv(): boolean {
+  const value = process.env.SHOPIFY_MCP_DRY_RUN?.trim().toLowerCase();
+  return value === "true" || value === "1";
+}
+
+// Fields read for context even when the mutation doesn't touch them (dots for nesting)
+const SUMMARY_FIELDS: Record<string, string[]> = {
+  Product: ["title", "handle", "status", "updatedAt", "totalInventory", "variantsCount.count"],
+  Collection: ["title", "handle", "updatedAt", "productsCount.count"],
+  Page: ["title", "handle", "isPublished", "updatedAt"],
+  Customer: ["displayName", "updatedAt", "numberOfOrders", "amountSpent.amount", "amountSpent.currencyCode"],
+  Order: [
+    "name", "cancelledAt", "displayFinancialStatus", "displayFulfillmentStatus",
+    "totalPriceSet.shopMoney.amount", "totalPriceSet.shopMoney.currencyCode",
+  ],
+  DraftOrder: ["name", "status"],
+  Menu: ["title", "handle"],
+  OnlineStoreTheme: ["name", "role"],
+  StoreCreditAccount: ["balance.amount", "balance.currencyCode"],
+};
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface MutationPreview {
+  document: string;
+  variables: Record<string, unknown>;
+  target: { id: string; type: string } | null;
+  currentState: Record<string, unknown> | null;
+  /** Fields whose value would change */
+  diff: FieldChange[];
+  /** Fields the mutation sets to the value they already have */
+  unchanged: string[];
+  /** Input fields that couldn't be read back for comparison */
+  notCompared: string[];
+  stateError?: string;
+}
+
+// Selection tree: null marks a leaf field
+type Selection = Map<string, Selection | null>;
+
+function isGid(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith("gid://shopify/");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isLeafValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.every(item => !isPlainObject(item) && !Array.isArray(item));
+  return !isPlainObject(value);
+}
+
+function omit(source: Record<string, unknown>, key: string): Record<string, unknown> {
+  const { [key]: _removed, ...rest } = source;
+  return rest;
+}
+
+export interface MutationTarget {
+  id: string;
+  /** Values the mutation writes, without the ID itself */
+  changes: Record<string, unknown>;
+  /** Where `changes` lives in the variables ([] for the top level, ["input"], ...) */
+  path: string[];
+}
+
+/**
+ * The resource a mutation targets and the values it would write to it
+ *
+ * Prefers an `id` on the variables themselves or on an input object
+ * (`{ input: { id, title } }`), then any variable holding a Shopify GID
+ * (`{ orderId, reason }`). When the ID sits next to a single input object
+ * (`{ id, input: { title } }`), that object holds the changes.
+ */
+export function findTarget(variables: Record<string, unknown>): MutationTarget | undefined {
+  if (isGid(variables.id)) {
+    const rest = omit(variables, "id");
+    const keys = Object.keys(rest);
+    if (keys.length === 1 && isPlainObject(rest[keys[0]])) {
+      return { id: variables.id, changes: rest[keys[0]] as Record<string, unknown>, path: [keys[0]] };
+    }
+    return { id: variables.id, changes: rest, path: [] };
+  }
+
+  for (const [key, value] of Object.entries(variables)) {
+    if (isPlainObject(value) && isGid(value.id)) {
+      return { id: value.id, changes: omit(value, "id"), path: [key] };
+    }
+  }
+
+  for (const [key, value] of Object.entries(variables)) {
+    if (isGid(value)) {
+      return { id: value, changes: omit(variables, key), path: [] };
+    }
+  }
+
+  return undefined;
+}
+
+function buildSelection(changes: Record<string, unknown>, notCompared: string[], prefix = ""): Selection {
+  const selection: Selection = new Map();
+
+  for (const [key, value] of Object.entries(changes)) {
+    if (isLeafValue(value)) {
+      selection.set(key, null);
+    } else if (isPlainObject(value)) {
+      const nested = buildSelection(value, notCompared, `${prefix}${key}.`);
+      if (nested.size > 0) selection.set(key, nested);
+    } else {
+      notCompared.push(`${prefix}${key}`);
+    }
+  }
+
+  return selection;
+}
+
+function addPath(selection: Selection, [field, ...rest]: string[]): void {
+  if (rest.length === 0) {
+    if (!selection.has(field)) selection.set(field, null);
+    return;
+  }
+
+  let nested = selection.get(field);
+  if (!nested) {
+    nested = new Map();
+    selection.set(field, nested);
+  }
+  addPath(nested, rest);
+}
+
+function renderSelection(selection: Selection): string {
+  return [...selection.entries()]
+    .map(([field, nested]) => (nested ? `${field} { ${renderSelection(nested)} }` : field))
+    .join(" ");
+}
+
+function removeField(selection: Selection, field: string, prefix = ""): string[] {
+  const removed: string[] = [];
+
+  for (const [key, nested] of selection) {
+    if (key === field) {
+      selection.delete(key);
+      removed.push(`${prefix}${key}`);
+    } else if (nested) {
+      removed.push(...removeField(nested, field, `${prefix}${key}.`));
+      if (nested.size === 0) selection.delete(key);
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Read the fields in `selection` from the resource, dropping fields the API
+ * rejects (input names don't always match output names) and retrying
+ */
+async function fetchCurrentState(
+  client: ShopifyGraphQLClient,
+  id: string,
+  type: string,
+  selection: Selection,
+  notCompared: string[]
+): Promise<Record<string, unknown> | null> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const fields = selection.size > 0 ? ` ... on ${type} { ${renderSelection(selection)} }` : "";
+    const result = await client.execute<{ node: Record<string, unknown> | null }>(
+      `query DryRunCurrentState($id: ID!) { node(id: $id) { id __typename${fields} } }`,
+      { id }
+    );
+
+    if (!result.errors) {
+      return (result.data as { node: Record<string, unknown> | null } | undefined)?.node ?? null;
+    }
+
+    const rejected = result.errors
+      .map(error => error.message.match(/field '([^']+)'/i)?.[1])
+      .filter((field): field is string => !!field);
+    const removed = rejected.flatMap(field => removeField(selection, field));
+    if (removed.length === 0) {
+      throw new Error(`GraphQL Errors: ${JSON.stringify(result.errors)}`);
+    }
+    notCompared.push(...removed);
+  }
+
+  throw new Error("Could not build a query for the current state");
+}
+
+function compare(
+  changes: Record<string, unknown>,
+  current: Record<string, unknown>,
+  selection: Selection,
+  preview: Pick<MutationPreview, "diff" | "unchanged">,
+  prefix = ""
+): void {
+  for (const [key, after] of Object.entries(changes)) {
+    if (!selection.has(key)) continue;
+    const nested = selection.get(key);
+    const before = current[key];
+
+    if (nested && isPlainObject(after)) {
+      compare(after, isPlainObject(before) ? before : {}, nested, preview, `${prefix}${key}.`);
+    } else if (JSON.stringify(before ?? null) === JSON.stringify(after ?? null)) {
+      preview.unchanged.push(`${prefix}${key}`);
+    } else {
+      preview.diff.push({ field: `${prefix}${key}`, before: before ?? null, after });
+    }
+  }
+}
+
+/**
+ * Describe what a captured mutation would do to its target
+ */
+export async function previewMutation(client: ShopifyGraphQLClient, mutation: CapturedMutation): Promise<MutationPreview> {
+  const preview: MutationPreview = {
+    document: mutation.document,
+    variables: mutation.variables,
+    target: null,
+    currentState: null,
+    diff: [],
+    unchanged: [],
+    notCompared: [],
+  };
+
+  const target = findTarget(mutation.variables);
+  const type = target ? gidType(target.id) : undefined;
+  if (!target || !type) {
+    return preview;
+  }
+
+  preview.target = { id: target.id, type };
+  const selection = buildSelection(target.changes, preview.notCompared);
+  for (const path of SUMMARY_FIELDS[type] ?? []) {
+    addPath(selection, path.split("."));
+  }
+
+  try {
+    preview.currentState = await fetchCurrentState(client, target.id, type, selection, preview.notCompared);
+  } catch (error) {
+    preview.stateError = error instanceof Error ? error.message : String(error);
+    return preview;
+  }
+
+  if (!preview.currentState) {
+    preview.stateError = `${type} ${target.id} not found`;
+    return preview;
+  }
+
+  compare(target.changes, preview.currentState, selection, preview);
+  // Rejected summary fields aren't inputs, so they don't belong in notCompared
+  preview.notCompared = preview.notCompared.filter(path => path.split(".")[0] in target.changes);
+  return preview;
+}
+
+/**
+ * Add a `dryRun` argument to every mutation tool and answer dry runs with a
+ * preview instead of the mutation result
+ */
+export function dryRunMiddleware(client: ShopifyGraphQLClient, always: boolean): ToolMiddleware {
+  const dryRunArgument = z.boolean().optional().describe(
+    always
+      ? "Dry run is enforced by the server (SHOPIFY_MCP_DRY_RUN); the mutation is never sent"
+      : "Preview the mutation (document, variables, current state and field diff) without sending it"
+  );
+
+  return (tool) => {
+    if (getToolDefinition(tool.name)?.access !== "write") {
+      return tool;
+    }
+
+    const hadInputSchema = tool.config.inputSchema !== undefined;
+
+    return {
+      ...tool,
+      config: {
+        ...tool.config,
+        inputSchema: { ...tool.config.inputSchema, dryRun: dryRunArgument },
+      },
+      handler: async (args: Record<string, unknown>, extra: unknown) => {
+        const { dryRun, ...rest } = args;
+        const call = async () => (hadInputSchema ? tool.handler(rest, extra) : tool.handler(extra));
+
+        if (!always && dryRun !== true) {
+          return call();
+        }
+
+        const { result, mutations } = await runAsDryRun(call);
+
+        // The handler finished (or failed) before reaching a mutation
+        if (mutations.length === 0) {
+          return { ...result, _meta: { ...result._meta, dryRun: true } };
+        }
+
+        const previews = await Promise.all(mutations.map(mutation => previewMutation(client, mutation)));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  dryRun: true,
+                  tool: tool.name,
+                  message: "Dry run: the mutation below was not sent",
+                  mutations: previews,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+          _meta: { dryRun: true },
+        };
+      },
+    };
+  };
+}
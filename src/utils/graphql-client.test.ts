@@ -0,0 +1,101 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ShopifyGraphQLClient } from "./graphql-client.js";
+import { MockTransport, MockTransportHandler } from "./transport.js";
+
+const QUERY = "query Shop { shop { name } }";
+const MUTATION = "mutation TagsAdd($id: ID!, $tags: [String!]!) { tagsAdd(id: $id, tags: $tags) { userErrors { message } } }";
+
+function clientWith(handler: MockTransportHandler) {
+  const transport = new MockTransport(handler);
+  const client = new ShopifyGraphQLClient({
+    config: { accessToken: "shpat_test", storeUrl: "test.myshopify.com", apiUrl: "https://test.myshopify.com/admin/api/2025-07/graphql.json" },
+    transport,
+    retryPolicy: { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0 },
+    readOnly: false,
+    cache: null,
+  });
+  return { client, transport };
+}
+
+// Answers with `failures` in turn, then with `success` for every later request
+function sequence(failures: Array<() => ReturnType<MockTransportHandler>>, success: unknown): MockTransportHandler {
+  let calls = 0;
+  return () => (calls < failures.length ? failures[calls++]() : MockTransport.json(success));
+}
+
+const networkError = () => {
+  throw new Error("socket hang up");
+};
+const unavailable = () => MockTransport.json({ errors: [{ message: "Service Unavailable" }] }, 503);
+const tooManyRequests = () => MockTransport.json({ errors: [{ message: "Too Many Requests" }] }, 429, { "retry-after": "0" });
+const throttled = () => MockTransport.json({ errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }] });
+
+describe("ShopifyGraphQLClient retries", () => {
+  it("sends the token in a header and the document as JSON", async () => {
+    const { client, transport } = clientWith(() => MockTransport.json({ data: { shop: { name: "Test" } } }));
+
+    const result = await client.execute(QUERY, { first: 1 });
+
+    assert.deepEqual(result.data, { shop: { name: "Test" } });
+    assert.equal(transport.requests.length, 1);
+    assert.equal(transport.requests[0].headers["X-Shopify-Access-Token"], "shpat_test");
+    assert.deepEqual(MockTransport.payload(transport.requests[0]), { query: QUERY, variables: { first: 1 } });
+  });
+
+  it("retries queries after network errors and 5xx responses", async () => {
+    const { client, transport } = clientWith(sequence([networkError, unavailable], { data: { shop: { name: "Test" } } }));
+
+    const result = await client.execute(QUERY);
+
+    assert.deepEqual(result.data, { shop: { name: "Test" } });
+    assert.equal(transport.requests.length, 3);
+  });
+
+  it("gives up after maxRetries and returns the last response", async () => {
+    const { client, transport } = clientWith(unavailable);
+
+    const result = await client.execute(QUERY);
+
+    assert.deepEqual(result.errors, [{ message: "Service Unavailable" }]);
+    assert.equal(transport.requests.length, 3);
+  });
+
+  it("retries mutations that Shopify rejected with 429 or THROTTLED", async () => {
+    const { client, transport } = clientWith(sequence([tooManyRequests, throttled], { data: { tagsAdd: { userErrors: [] } } }));
+
+    const result = await client.execute(MUTATION, { id: "gid://shopify/Product/1", tags: ["sale"] });
+
+    assert.deepEqual(result.data, { tagsAdd: { userErrors: [] } });
+    assert.equal(transport.requests.length, 3);
+  });
+
+  it("does not resend a mutation after a network error", async () => {
+    const { client, transport } = clientWith(sequence([networkError], { data: { tagsAdd: { userErrors: [] } } }));
+
+    await assert.rejects(client.execute(MUTATION, { id: "gid://shopify/Product/1", tags: ["sale"] }), /socket hang up/);
+    assert.equal(transport.requests.length, 1);
+  });
+
+  it("does not resend a mutation after a 5xx response", async () => {
+    const { client, transport } = clientWith(sequence([unavailable], { data: { tagsAdd: { userErrors: [] } } }));
+
+    const result = await client.execute(MUTATION, { id: "gid://shopify/Product/1", tags: ["sale"] });
+
+    assert.deepEqual(result.errors, [{ message: "Service Unavailable" }]);
+    assert.equal(transport.requests.length, 1);
+  });
+
+  it("refuses mutations in read-only mode without sending them", async () => {
+    const transport = new MockTransport(() => MockTransport.json({ data: {} }));
+    const client = new ShopifyGraphQLClient({
+      config: { accessToken: "shpat_test", storeUrl: "test.myshopify.com", apiUrl: "https://test.myshopify.com/admin/api/2025-07/graphql.json" },
+      transport,
+      readOnly: true,
+      cache: null,
+    });
+
+    await assert.rejects(client.execute(MUTATION, { id: "gid://shopify/Product/1", tags: [] }), /Read-only mode/);
+    assert.equal(transport.requests.length, 0);
+  });
+});
@@ -1,16 +1,73 @@
-import { exec } from "child_process";
-import { promisify } from "util";
 import { GraphQLResponse, ShopifyConfig } from "../types/index.js";
+import { FetchTransport, GraphQLTransport, StreamingTransportResponse, TransportResponse } from "./transport.js";
+import { CostThrottler, ThrottleBudget } from "./throttle.js";
+import { RetryPolicy, backoffDelay, isRetryableStatus, isThrottled, retryPolicyFromEnv, sleep } from "./retry.js";
+import { currentDryRun, currentMutationHook, currentMutationLog, currentRequestStats, currentStore } from "./request-context.js";
+import { isMutation } from "./graphql-document.js";
+import { ApiDeprecationLog } from "./api-deprecations.js";
+import { CacheSettings, cacheSettingsFromEnv, ResponseCache } from "./response-cache.js";
+import { getToolDefinition } from "./scope-mapper.js";
+import { adminApiUrl, apiVersionFromEnv, apiVersionFromUrl } from "../config/stores.js";
 
-const execAsync = promisify(exec);
+export interface ShopifyClientOptions {
+  /** Explicit credentials; read from the environment when omitted */
+  config?: ShopifyConfig;
+  /** HTTP transport; defaults to the native fetch transport */
+  transport?: GraphQLTransport;
+  /** Query cost throttler; a fresh one per client by default */
+  throttler?: CostThrottler;
+  /** Retry policy for transient failures; read from the environment when omitted */
+  retryPolicy?: RetryPolicy;
+  /** Refuse every mutation document; defaults to SHOPIFY_MCP_READ_ONLY */
+  readOnly?: boolean;
+  /** Where deprecated API usage reported by Shopify is recorded */
+  deprecations?: ApiDeprecationLog;
+  /** Query response cache; read from the environment when omitted, null disables it */
+  cache?: CacheSettings | null;
+}
+
+export interface ApiVersionInfo {
+  /** Version in the configured endpoint */
+  requested?: string;
+  /** Version Shopify answered with (X-Shopify-API-Version); differs when the requested one is unsupported */
+  served?: string;
+}
+
+/**
+ * SHOPIFY_MCP_READ_ONLY=true (or 1): only queries reach the store
+ */
+export function readOnlyFromEnv(): boolean {
+  const value = process.env.SHOPIFY_MCP_READ_ONLY?.trim().toLowerCase();
+  return value === "true" || value === "1";
+}
 
 export class ShopifyGraphQLClient {
   private config: ShopifyConfig;
+  private transport: GraphQLTransport;
+  private throttler: CostThrottler;
+  private retryPolicy: RetryPolicy;
+  private readOnly: boolean;
+  private deprecations?: ApiDeprecationLog;
+  private servedApiVersion?: string;
+  private cache?: ResponseCache;
+
+  constructor(options: ShopifyClientOptions = {}) {
+    this.config = options.config ?? ShopifyGraphQLClient.configFromEnv();
+    this.transport = options.transport ?? new FetchTransport();
+    this.throttler = options.throttler ?? new CostThrottler();
+    this.retryPolicy = options.retryPolicy ?? retryPolicyFromEnv();
+    this.readOnly = options.readOnly ?? readOnlyFromEnv();
+    this.deprecations = options.deprecations;
+
+    const cache = options.cache === undefined ? cacheSettingsFromEnv() : options.cache;
+    this.cache = cache ? new ResponseCache(cache) : undefined;
+  }
 
-  constructor() {
+  private static configFromEnv(): ShopifyConfig {
     const accessToken = process.env.SHOPIFY_ACCESS_TOKEN;
     const storeUrl = process.env.SHOPIFY_STORE_URL;
-    const apiUrl = process.env.SHOPIFY_STORE_API_URL;
+    const apiVersion = apiVersionFromEnv();
+    const apiUrl = process.env.SHOPIFY_STORE_API_URL || (storeUrl && apiVersion ? adminApiUrl(storeUrl, apiVersion) : undefined);
 
     if (!accessToken) {
       throw new Error("Missing required environment variable: SHOPIFY_ACCESS_TOKEN");
@@ -21,51 +78,223 @@ export class ShopifyGraphQLClient {
     }
 
     if (!apiUrl) {
-      throw new Error("Missing required environment variable: SHOPIFY_STORE_API_URL");
+      throw new Error("Missing required environment variable: SHOPIFY_STORE_API_URL (or SHOPIFY_API_VERSION)");
     }
 
-    this.config = {
+    return {
       accessToken,
       storeUrl,
       apiUrl,
+      apiVersion: apiVersionFromUrl(apiUrl) ?? apiVersion,
     };
   }
 
   async execute<T>(query: string, variables?: Record<string, unknown>): Promise<GraphQLResponse<T>> {
+    const document = query.trim();
+    const mutation = isMutation(document);
+    if (this.readOnly && mutation) {
+      throw new Error("Read-only mode: mutations are disabled (SHOPIFY_MCP_READ_ONLY is set)");
+    }
+
+    // A dry run stops at the first mutation; the caller reports what would have been sent
+    const dryRun = currentDryRun();
+    if (dryRun && mutation) {
+      dryRun.push({ document, variables: variables ?? {} });
+      throw new Error("Dry run: mutation not sent");
+    }
+
+    const hook = mutation ? currentMutationHook() : undefined;
+    if (hook) {
+      await hook({ document, variables: variables ?? {} });
+    }
+
+    if (mutation) {
+      this.cache?.clear();
+    }
+    const cacheKey = this.cache && !mutation && this.cacheable() ? ResponseCache.key(document, variables) : undefined;
+    const cached = cacheKey ? this.cache!.get(cacheKey) : undefined;
+    if (cached) {
+      return cached as GraphQLResponse<T>;
+    }
+
     const payload = JSON.stringify({
-      query: query.trim(),
+      query: document,
       variables: variables || {},
     });
+    const stats = currentRequestStats();
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.retryPolicy.maxRetries;
+      let response: TransportResponse;
+
+      try {
+        await this.throttler.acquire(document);
+        if (stats) stats.requests++;
+
+        response = await this.transport.send({
+          url: this.config.apiUrl,
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Accept": "application/json",
+            "X-Shopify-Access-Token": this.config.accessToken,
+          },
+          body: payload,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // The mutation may have reached Shopify before the connection failed
+        if (canRetry && !mutation) {
+          await this.retryAfter(attempt, `network error: ${message}`);
+          continue;
+        }
+        console.error("GraphQL request failed:", message);
+        throw new Error(`GraphQL request failed: ${message}`);
+      }
+
+      if (isRetryableStatus(response.status, mutation) && canRetry) {
+        await this.retryAfter(attempt, `HTTP ${response.status}`, response.headers["retry-after"]);
+        continue;
+      }
+
+      let parsed: GraphQLResponse<T>;
+      try {
+        parsed = JSON.parse(response.body);
+      } catch {
+        const message = `HTTP ${response.status}: ${response.body.slice(0, 200) || "empty response body"}`;
+        console.error("GraphQL request failed:", message);
+        throw new Error(`GraphQL request failed: ${message}`);
+      }
 
-    // Escape single quotes for shell safety
-    const escapedPayload = payload.replace(/'/g, "'\"'\"'");
+      this.throttler.record(document, parsed.extensions?.cost);
+      this.recordApiHeaders(document, response.headers);
 
-    const curlCommand = `curl -s -X POST "${this.config.apiUrl}" \
-      -H "Content-Type: application/json" \
-      -H "X-Shopify-Access-Token: ${this.config.accessToken}" \
-      -d '${escapedPayload}'`;
+      if (isThrottled(parsed) && canRetry) {
+        // The throttler now knows the bucket is empty and holds the next attempt back
+        await this.retryAfter(attempt, "THROTTLED");
+        continue;
+      }
 
-    try {
-      const { stdout, stderr } = await execAsync(curlCommand);
-      
-      if (stderr) {
-        console.error("cURL stderr:", stderr);
+      if (mutation) {
+        currentMutationLog()?.push({ document, variables: variables ?? {}, data: parsed.data, errors: parsed.errors });
       }
 
-      const response = JSON.parse(stdout);
-      
       // Handle Shopify API errors
-      if (response.errors) {
-        return { errors: response.errors };
+      if (parsed.errors) {
+        return { errors: parsed.errors, extensions: parsed.extensions };
       }
 
-      return response;
-    } catch (error) {
-      console.error("GraphQL request failed:", error);
-      throw new Error(`GraphQL request failed: ${error instanceof Error ? error.message : String(error)}`);
+      if (cacheKey) {
+        this.cache!.set(cacheKey, parsed);
+      }
+      return parsed;
     }
   }
 
+  // Only queries sent by read tools; mutation tools must see the current state,
+  // and raw GraphQL tools send whatever the caller asks for
+  private cacheable(): boolean {
+    const tool = currentRequestStats()?.tool;
+    return !!tool && getToolDefinition(tool)?.access === "read";
+  }
+
+  // Note the version Shopify served and any deprecated fields the document used
+  private recordApiHeaders(document: string, headers: Record<string, string>): void {
+    const served = headers["x-shopify-api-version"];
+    if (served && served !== this.servedApiVersion) {
+      const requested = this.getApiVersion().requested;
+      if (requested && served !== requested) {
+        console.error(`[WARN] Requested Admin API version ${requested} for ${this.config.storeUrl}, but Shopify served ${served}`);
+      }
+      this.servedApiVersion = served;
+    }
+
+    const reason = headers["x-shopify-api-deprecated-reason"];
+    if (reason) {
+      this.deprecations?.record({
+        tool: currentRequestStats()?.tool,
+        store: currentStore(),
+        document,
+        apiVersion: served,
+        reason,
+      });
+    }
+  }
+
+  private async retryAfter(attempt: number, reason: string, retryAfterHeader?: string): Promise<void> {
+    const delay = backoffDelay(this.retryPolicy, attempt, retryAfterHeader);
+    console.error(`[WARN] GraphQL request failed (${reason}), retry ${attempt + 1}/${this.retryPolicy.maxRetries} in ${delay}ms`);
+
+    const stats = currentRequestStats();
+    if (stats) stats.retries++;
+
+    await sleep(delay);
+  }
+
+  /**
+   * Stream a file from a URL handed out by the Admin API (e.g. a bulk
+   * operation result). These are pre-signed third-party URLs, so the access
+   * token is deliberately not sent.
+   */
+  async download(url: string): Promise<StreamingTransportResponse> {
+    const response = await this.transport.stream({ url, method: "GET", headers: {} });
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Download failed: HTTP ${response.status}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Upload a file to a staged upload target (multipart/form-data POST). The
+   * target's parameters must be sent as form fields ahead of the file; like
+   * download, the access token is not sent.
+   */
+  async uploadStaged(
+    url: string,
+    parameters: Array<{ name: string; value: string }>,
+    file: { filename: string; contentType: string; content: string }
+  ): Promise<void> {
+    const boundary = `----shopify-graphql-mcp-${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`;
+    const parts = parameters.map(({ name, value }) =>
+      `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+    );
+    parts.push(
+      `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${file.filename}"\r\nContent-Type: ${file.contentType}\r\n\r\n${file.content}\r\n`
+    );
+    parts.push(`--${boundary}--\r\n`);
+
+    const response = await this.transport.send({
+      url,
+      method: "POST",
+      headers: { "Content-Type": `multipart/form-data; boundary=${boundary}` },
+      body: parts.join(""),
+    });
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Staged upload failed: HTTP ${response.status}: ${response.body.slice(0, 200)}`);
+    }
+  }
+
+  /**
+   * Last known query cost budget, or undefined before the first response
+   */
+  getThrottleStatus(): ThrottleBudget | undefined {
+    return this.throttler.getBudget();
+  }
+
+  getApiVersion(): ApiVersionInfo {
+    return {
+      requested: this.config.apiVersion ?? apiVersionFromUrl(this.config.apiUrl),
+      served: this.servedApiVersion,
+    };
+  }
+
+  isReadOnly(): boolean {
+    return this.readOnly;
+  }
+
   getConfig(): ShopifyConfig {
     return { ...this.config };
   }
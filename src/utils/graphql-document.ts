@@ -0,0 +1,70 @@
+/**
+ * Lightweight inspection of GraphQL documents
+ *
+ * Just enough lexing to answer policy questions about a document (which
+ * operation types it defines) without pulling in a full GraphQL parser.
+ * Comments and string literals are blanked out first so a `mutation` inside
+ * a description or argument value is never mistaken for an operation.
+ */
+
+export type OperationType = "query" | "mutation" | "subscription";
+
+/**
+ * Replace comments and string literals (including block strings) with spaces
+ */
+export function stripCommentsAndStrings(document: string): string {
+  return document.replace(/"""[\s\S]*?"""|"(?:\\.|[^"\\\n])*"|#[^\n]*/g, (match) => " ".repeat(match.length));
+}
+
+/**
+ * Operation types defined at the top level of `document`
+ *
+ * A bare selection set (`{ shop { name } }`) counts as a query. Fragment
+ * definitions are skipped.
+ */
+export function operationTypes(document: string): OperationType[] {
+  const source = stripCommentsAndStrings(document);
+  const types: OperationType[] = [];
+  let depth = 0;
+  let parens = 0;
+  let expectingDefinition = true;
+
+  const tokens = source.match(/[A-Za-z_][A-Za-z0-9_]*|[{}()]/g) ?? [];
+
+  for (const token of tokens) {
+    if (token === "(") parens++;
+    else if (token === ")") parens--;
+    else if (parens > 0) continue;
+    else if (token === "{") {
+      if (depth === 0 && expectingDefinition) types.push("query");
+      depth++;
+      expectingDefinition = false;
+    } else if (token === "}") {
+      depth--;
+      if (depth === 0) expectingDefinition = true;
+    } else if (depth === 0 && expectingDefinition) {
+      if (token === "query" || token === "mutation" || token === "subscription") {
+        types.push(token);
+        expectingDefinition = false;
+      } else if (token === "fragment") {
+        expectingDefinition = false;
+      }
+    }
+  }
+
+  return types;
+}
+
+export function isMutation(document: string): boolean {
+  return operationTypes(document).includes("mutation");
+}
+
+/**
+ * Name of the first operation in `document`, or its first root field when
+ * the operation is anonymous
+ */
+export function operationName(document: string): string | undefined {
+  const source = stripCommentsAndStrings(document);
+  return source.match(/\b(?:query|mutation|subscription)\s+([A-Za-z_][A-Za-z0-9_]*)/)?.[1]
+    ?? source.match(/\{\s*([A-Za-z_][A-Za-z0-9_]*)/)?.[1];
+}
@@ -0,0 +1,238 @@
+import { appendFile, mkdir, readFile, rename, stat } from "fs/promises";
+import path from "path";
+import { collectUserErrors } from "./bulk-operations.js";
+import { operationName } from "./graphql-document.js";
+import { currentStore, runWithMutationLog } from "./request-context.js";
+import { ToolMiddleware } from "./tool-registry.js";
+
+/**
+ * Append-only journal of every mutation this server sends
+ *
+ * One JSON line per tool call that reached the store, written to
+ * `journal.jsonl` in the data directory. When the file grows past the size
+ * limit it is rotated to `journal.jsonl.1`, `.2`, ... and the oldest file is
+ * dropped.
+ *
+ * Environment overrides:
+ *   SHOPIFY_MCP_DATA_DIR=.shopify-mcp           # Where local state lives (default: ./.shopify-mcp)
+ *   SHOPIFY_MCP_JOURNAL=false                   # Disable the journal
+ *   SHOPIFY_MCP_JOURNAL_MAX_BYTES=10485760      # Rotate above this size
+ *   SHOPIFY_MCP_JOURNAL_FILES=5                 # Rotated files to keep
+ */
+
+export interface JournalMutation {
+  operation?: string;
+  /** Shopify IDs the mutation was sent for */
+  targetIds: string[];
+  /** Shopify IDs found in the response */
+  resultIds: string[];
+  userErrors: unknown[];
+  errors?: unknown[];
+}
+
+export interface JournalEntry {
+  timestamp: string;
+  tool: string;
+  store?: string;
+  arguments: Record<string, unknown>;
+  mutations: JournalMutation[];
+  isError: boolean;
+}
+
+export interface JournalFilter {
+  tool?: string;
+  /** Shopify ID (or part of one) that was targeted or returned */
+  resource?: string;
+  since?: Date;
+  until?: Date;
+  store?: string;
+  limit?: number;
+}
+
+const SENSITIVE_KEY = /token|secret|password|credential|api_?key|authorization/i;
+const MAX_STRING_LENGTH = 500;
+
+/**
+ * Directory for local state (journal, change history, plans)
+ */
+export function dataDirFromEnv(): string {
+  return path.resolve(process.env.SHOPIFY_MCP_DATA_DIR || ".shopify-mcp");
+}
+
+/**
+ * Copy of tool arguments that is safe to keep on disk: secrets are redacted
+ * and long strings (file bodies, HTML) are truncated
+ */
+export function sanitizeArguments(value: unknown, key = ""): unknown {
+  if (key && SENSITIVE_KEY.test(key)) return "[REDACTED]";
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}... (${value.length} characters)`
+      : value;
+  }
+  if (Array.isArray(value)) return value.map(item => sanitizeArguments(item));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, sanitizeArguments(v, k)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Every distinct Shopify GID inside `value`
+ */
+export function collectGids(value: unknown, found = new Set<string>()): string[] {
+  if (typeof value === "string" && value.startsWith("gid://shopify/")) {
+    found.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectGids(item, found));
+  } else if (value && typeof value === "object") {
+    Object.values(value as Record<string, unknown>).forEach(item => collectGids(item, found));
+  }
+  return [...found];
+}
+
+function readPositive(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  if (!Number.isFinite(value) || value <= 0) {
+    console.error(`[WARN] Ignoring invalid ${name}: ${process.env[name]}`);
+    return fallback;
+  }
+  return value;
+}
+
+export class MutationJournal {
+  readonly file: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(file: string, options: { maxBytes?: number; maxFiles?: number } = {}) {
+    this.file = file;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  /**
+   * Journal configured from the environment, or undefined when disabled
+   */
+  static fromEnv(): MutationJournal | undefined {
+    if (process.env.SHOPIFY_MCP_JOURNAL?.trim().toLowerCase() === "false") {
+      return undefined;
+    }
+
+    return new MutationJournal(path.join(dataDirFromEnv(), "journal.jsonl"), {
+      maxBytes: readPositive("SHOPIFY_MCP_JOURNAL_MAX_BYTES", 10 * 1024 * 1024),
+      maxFiles: Math.floor(readPositive("SHOPIFY_MCP_JOURNAL_FILES", 5)),
+    });
+  }
+
+  /**
+   * Queue an entry; writes happen one at a time so rotation never interleaves
+   */
+  append(entry: JournalEntry): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.write(entry))
+      .catch((error) => {
+        console.error("[ERROR] Failed to write mutation journal:", error instanceof Error ? error.message : String(error));
+      });
+    return this.queue;
+  }
+
+  private async write(entry: JournalEntry): Promise<void> {
+    await mkdir(path.dirname(this.file), { recursive: true });
+    await this.rotateIfNeeded();
+    await appendFile(this.file, `${JSON.stringify(entry)}\n`, "utf8");
+  }
+
+  private async rotateIfNeeded(): Promise<void> {
+    const size = await stat(this.file).then(s => s.size, () => 0);
+    if (size < this.maxBytes) return;
+
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      await rename(`${this.file}.${i}`, `${this.file}.${i + 1}`).catch(() => undefined);
+    }
+    await rename(this.file, `${this.file}.1`);
+  }
+
+  /**
+   * Entries matching `filter`, newest first
+   */
+  async query(filter: JournalFilter = {}): Promise<JournalEntry[]> {
+    await this.queue;
+    const files = [this.file, ...Array.from({ length: this.maxFiles }, (_, i) => `${this.file}.${i + 1}`)];
+    const entries: JournalEntry[] = [];
+
+    for (const file of files) {
+      const content = await readFile(file, "utf8").catch(() => "");
+      for (const line of content.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          entries.push(JSON.parse(line));
+        } catch {
+          // A torn last line (e.g. after a crash) shouldn't hide the rest
+        }
+      }
+    }
+
+    const since = filter.since?.getTime() ?? -Infinity;
+    const until = filter.until?.getTime() ?? Infinity;
+
+    return entries
+      .filter((entry) => {
+        const time = Date.parse(entry.timestamp);
+        if (time < since || time > until) return false;
+        if (filter.tool && entry.tool !== filter.tool) return false;
+        if (filter.store && entry.store !== filter.store) return false;
+        if (filter.resource) {
+          const ids = entry.mutations.flatMap(m => [...m.targetIds, ...m.resultIds]);
+          if (!ids.some(id => id.includes(filter.resource!))) return false;
+        }
+        return true;
+      })
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, filter.limit ?? 50);
+  }
+}
+
+/**
+ * Journal every tool call that sends at least one mutation
+ */
+export function journalMiddleware(journal: MutationJournal): ToolMiddleware {
+  return (tool) => {
+    const hasArguments = tool.config.inputSchema !== undefined;
+
+    return {
+      ...tool,
+      handler: async (...params) => {
+        const { result, mutations } = await runWithMutationLog(async () => tool.handler(...params));
+        if (mutations.length === 0) {
+          return result;
+        }
+
+        const journaled = mutations.map((mutation) => {
+          const userErrors = collectUserErrors(mutation.data);
+          return {
+            operation: operationName(mutation.document),
+            targetIds: collectGids(mutation.variables),
+            resultIds: collectGids(mutation.data),
+            userErrors,
+            ...(mutation.errors ? { errors: mutation.errors } : {}),
+          };
+        });
+
+        await journal.append({
+          timestamp: new Date().toISOString(),
+          tool: tool.name,
+          store: currentStore(),
+          arguments: sanitizeArguments(hasArguments ? params[0] : {}) as Record<string, unknown>,
+          mutations: journaled,
+          isError: !!result.isError || journaled.some(m => m.userErrors.length > 0 || !!m.errors),
+        });
+
+        return result;
+      },
+    };
+  };
+}
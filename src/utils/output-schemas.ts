@@ -0,0 +1,202 @@
+import { z } from "zod";
+
+/**
+ * Output schemas for tools that return structured content
+ *
+ * Each schema describes the data as the tool returns it (see
+ * response-format.ts): the fields its document selects, with connections
+ * flattened to lists of nodes and null fields left out. Only a missing
+ * top-level object stays `null`. List tools also return the listed
+ * connection's `pageInfo`, and `fields` can leave out any field of a listed
+ * item.
+ */
+
+const pageInfo = z.object({
+  hasNextPage: z.boolean(),
+  hasPreviousPage: z.boolean().optional(),
+  endCursor: z.string().nullable(),
+}).optional();
+
+/**
+ * The listed items of a list tool, each possibly projected with `fields`
+ */
+function itemsOf<T extends z.AnyZodObject>(node: T) {
+  return z.array(node.deepPartial());
+}
+
+const money = z.object({
+  shopMoney: z.object({
+    amount: z.string(),
+    currencyCode: z.string(),
+  }),
+});
+
+const mailingAddress = z.object({
+  id: z.string().optional(),
+  address1: z.string().optional(),
+  address2: z.string().optional(),
+  city: z.string().optional(),
+  province: z.string().optional(),
+  country: z.string().optional(),
+  zip: z.string().optional(),
+  phone: z.string().optional(),
+});
+
+const metafield = z.object({
+  id: z.string(),
+  namespace: z.string(),
+  key: z.string(),
+  value: z.string(),
+  type: z.string(),
+});
+
+const image = z.object({
+  id: z.string().optional(),
+  url: z.string(),
+  altText: z.string().optional(),
+});
+
+// Orders
+
+const orderLineItem = z.object({
+  id: z.string(),
+  title: z.string(),
+  quantity: z.number(),
+  originalUnitPriceSet: money,
+  discountedUnitPriceSet: money.optional(),
+  variant: z.object({
+    id: z.string(),
+    title: z.string(),
+    sku: z.string().optional(),
+    product: z.object({ id: z.string(), title: z.string() }),
+  }).optional(),
+});
+
+const order = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  processedAt: z.string().optional(),
+  cancelledAt: z.string().optional(),
+  closedAt: z.string().optional(),
+  displayFinancialStatus: z.string().optional(),
+  displayFulfillmentStatus: z.string(),
+  confirmed: z.boolean().optional(),
+  confirmationNumber: z.string().optional(),
+  paymentGatewayNames: z.array(z.string()).optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  totalPriceSet: money,
+  subtotalPriceSet: money.optional(),
+  totalDiscountsSet: money.optional(),
+  totalShippingPriceSet: money.optional(),
+  totalTaxSet: money.optional(),
+  customer: z.object({
+    id: z.string(),
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    email: z.string().optional(),
+    phone: z.string().optional(),
+  }).optional(),
+  lineItems: z.array(orderLineItem),
+  shippingAddress: mailingAddress.optional(),
+  billingAddress: mailingAddress.optional(),
+  fulfillments: z.array(z.object({
+    id: z.string(),
+    status: z.string(),
+    createdAt: z.string(),
+    trackingInfo: z.array(z.object({ number: z.string().optional(), company: z.string().optional() })),
+  })).optional(),
+  refunds: z.array(z.object({
+    id: z.string(),
+    createdAt: z.string().optional(),
+    totalRefundedSet: money,
+  })).optional(),
+});
+
+export const orderListOutput = { orders: itemsOf(order), pageInfo };
+export const orderOutput = { order: order.nullable() };
+
+// Products
+
+const productVariant = z.object({
+  id: z.string(),
+  title: z.string(),
+  sku: z.string().optional(),
+  price: z.string(),
+  compareAtPrice: z.string().optional(),
+  inventoryQuantity: z.number().optional(),
+  selectedOptions: z.array(z.object({ name: z.string(), value: z.string() })),
+  image: image.optional(),
+});
+
+const product = z.object({
+  id: z.string(),
+  title: z.string(),
+  handle: z.string(),
+  descriptionHtml: z.string(),
+  vendor: z.string(),
+  productType: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  status: z.string(),
+  totalInventory: z.number(),
+  tags: z.array(z.string()),
+  seo: z.object({ title: z.string().optional(), description: z.string().optional() }).optional(),
+  images: z.array(image),
+  variants: z.array(productVariant),
+  collections: z.array(z.object({ id: z.string(), title: z.string(), handle: z.string() })).optional(),
+  metafields: z.array(metafield).optional(),
+});
+
+export const productListOutput = { products: itemsOf(product), pageInfo };
+export const productOutput = { product: product.nullable() };
+
+// Customers
+
+const customer = z.object({
+  id: z.string(),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  state: z.string(),
+  verifiedEmail: z.boolean(),
+  numberOfOrders: z.string(),
+  amountSpent: z.object({ amount: z.string(), currencyCode: z.string() }),
+  defaultAddress: mailingAddress.optional(),
+  addressesV2: z.array(mailingAddress).optional(),
+  orders: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    createdAt: z.string(),
+    displayFinancialStatus: z.string().optional(),
+    totalPriceSet: money,
+  })).optional(),
+  metafields: z.array(metafield).optional(),
+});
+
+export const customerListOutput = { customers: itemsOf(customer), pageInfo };
+export const customerOutput = { customer: customer.nullable() };
+
+// Inventory
+
+const inventoryItem = z.object({
+  id: z.string(),
+  sku: z.string().optional(),
+  variant: z.object({
+    id: z.string(),
+    title: z.string(),
+    product: z.object({ id: z.string(), title: z.string() }),
+  }).optional(),
+  inventoryLevels: z.array(z.object({
+    id: z.string(),
+    quantities: z.array(z.object({ name: z.string(), quantity: z.number() })),
+    location: z.object({ id: z.string(), name: z.string() }),
+  })),
+});
+
+export const inventoryListOutput = { inventoryItems: itemsOf(inventoryItem), pageInfo };
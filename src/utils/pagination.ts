@@ -0,0 +1,171 @@
+import { z } from "zod";
+import { GraphQLResponse } from "../types/index.js";
+import { ShopifyGraphQLClient } from "./graphql-client.js";
+
+/**
+ * Auto-pagination for list tools
+ *
+ * List tools spread `paginationInputSchema` into their input schema and run
+ * their query through `executePaginated`. Without `fetchAll` this is a plain
+ * `client.execute`. With `fetchAll` the helper follows `pageInfo.endCursor`
+ * until the connection is exhausted or `maxItems` is reached, and returns the
+ * connection as a single de-duplicated `nodes` list plus a `pagination`
+ * summary telling the caller whether (and where) to resume.
+ */
+
+export const DEFAULT_MAX_ITEMS = 1000;
+export const MAX_ITEMS_LIMIT = 10000;
+
+export const paginationInputSchema = {
+  fetchAll: z.boolean().optional().describe("Follow pagination cursors and return all pages merged into one list (stops at maxItems)"),
+  maxItems: z.number().min(1).max(MAX_ITEMS_LIMIT).optional().describe(`Maximum items to return when fetchAll is set (default: ${DEFAULT_MAX_ITEMS})`),
+};
+
+export const paginationSummarySchema = z.object({
+  pagesFetched: z.number(),
+  itemCount: z.number(),
+  truncated: z.boolean(),
+  resumeCursor: z.string().nullable().optional(),
+  notice: z.string().optional(),
+});
+
+export interface PaginationOptions {
+  /** Field path from `data` to the connection, e.g. ["orders"] or ["publication", "products"] */
+  path: string[];
+  fetchAll?: boolean;
+  maxItems?: number;
+}
+
+export interface PaginationSummary {
+  pagesFetched: number;
+  itemCount: number;
+  truncated: boolean;
+  /** Cursor to pass as `after` to continue where this result stopped */
+  resumeCursor?: string | null;
+  notice?: string;
+}
+
+interface Connection {
+  edges?: Array<{ node: unknown; cursor?: string }>;
+  nodes?: unknown[];
+  pageInfo?: {
+    hasNextPage?: boolean;
+    endCursor?: string | null;
+  };
+}
+
+function getConnection(data: unknown, path: string[]): Connection | undefined {
+  let current: unknown = data;
+  for (const key of path) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current && typeof current === "object" ? (current as Connection) : undefined;
+}
+
+function replaceConnection(data: unknown, path: string[], connection: unknown): Record<string, unknown> {
+  const root = { ...(data as Record<string, unknown>) };
+  let parent = root;
+  for (const key of path.slice(0, -1)) {
+    parent[key] = { ...(parent[key] as Record<string, unknown>) };
+    parent = parent[key] as Record<string, unknown>;
+  }
+  parent[path[path.length - 1]] = connection;
+  return root;
+}
+
+function nodeKey(node: unknown): string {
+  if (node && typeof node === "object" && typeof (node as { id?: unknown }).id === "string") {
+    return (node as { id: string }).id;
+  }
+  return JSON.stringify(node);
+}
+
+export async function executePaginated(
+  client: ShopifyGraphQLClient,
+  query: string,
+  variables: Record<string, unknown>,
+  options: PaginationOptions
+): Promise<GraphQLResponse<unknown>> {
+  if (!options.fetchAll) {
+    return client.execute(query, variables);
+  }
+
+  const maxItems = Math.min(options.maxItems ?? DEFAULT_MAX_ITEMS, MAX_ITEMS_LIMIT);
+  const nodes: unknown[] = [];
+  const seen = new Set<string>();
+  let firstPage: GraphQLResponse<unknown> | undefined;
+  let cursor = variables.after as string | undefined;
+  let pagesFetched = 0;
+  let hasNextPage = false;
+  let resumeCursor: string | null | undefined;
+
+  while (true) {
+    const result = await client.execute<unknown>(query, { ...variables, after: cursor });
+
+    if (result.errors) {
+      // Later pages failing would silently drop data, so surface the error
+      return result;
+    }
+
+    const connection = getConnection(result.data, options.path);
+    if (!connection) {
+      return pagesFetched === 0 ? result : { ...firstPage, errors: [{ message: `Connection '${options.path.join(".")}' missing from page ${pagesFetched + 1}` }] };
+    }
+
+    firstPage ??= result;
+    pagesFetched++;
+
+    const edges = connection.edges ?? (connection.nodes ?? []).map(node => ({ node, cursor: undefined }));
+    let stoppedEarly = false;
+
+    for (let i = 0; i < edges.length; i++) {
+      if (nodes.length >= maxItems) {
+        stoppedEarly = true;
+        // Resume after the last edge we kept; fall back to the page cursor when edges have none
+        resumeCursor = edges[i - 1]?.cursor ?? cursor ?? null;
+        break;
+      }
+
+      const key = nodeKey(edges[i].node);
+      if (!seen.has(key)) {
+        seen.add(key);
+        nodes.push(edges[i].node);
+      }
+    }
+
+    hasNextPage = stoppedEarly || !!connection.pageInfo?.hasNextPage;
+    if (!stoppedEarly) {
+      resumeCursor = connection.pageInfo?.endCursor ?? null;
+    }
+
+    if (stoppedEarly || !hasNextPage || !resumeCursor || nodes.length >= maxItems) {
+      break;
+    }
+
+    cursor = resumeCursor;
+  }
+
+  const truncated = hasNextPage;
+  const pagination: PaginationSummary = {
+    pagesFetched,
+    itemCount: nodes.length,
+    truncated,
+    resumeCursor: truncated ? resumeCursor : null,
+  };
+
+  if (truncated) {
+    pagination.notice = `Stopped at ${nodes.length} items (maxItems: ${maxItems}); more results are available. Call again with after: "${resumeCursor}" to continue.`;
+  }
+
+  return {
+    data: {
+      ...replaceConnection(firstPage?.data, options.path, {
+        nodes,
+        pageInfo: { hasNextPage, endCursor: resumeCursor ?? null },
+      }),
+      pagination,
+    },
+    extensions: firstPage?.extensions,
+  };
+}
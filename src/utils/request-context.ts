@@ -0,0 +1,136 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { ToolMiddleware } from "./tool-registry.js";
+
+/**
+ * Per-tool-call bookkeeping
+ *
+ * Each tool invocation runs inside its own async context, so the client can
+ * attribute requests and retries to the call that caused them without the
+ * handlers having to pass anything around.
+ */
+
+export interface RequestStats {
+  /** Tool being called */
+  tool?: string;
+  /** GraphQL requests sent, retries included */
+  requests: number;
+  /** Requests that were repeated after a transient failure */
+  retries: number;
+}
+
+/** A mutation the client held back because the call is a dry run */
+export interface CapturedMutation {
+  document: string;
+  variables: Record<string, unknown>;
+}
+
+/** A mutation the client sent, with the response it got */
+export interface ExecutedMutation {
+  document: string;
+  variables: Record<string, unknown>;
+  data?: unknown;
+  errors?: unknown[];
+}
+
+const storage = new AsyncLocalStorage<RequestStats>();
+const storeStorage = new AsyncLocalStorage<string>();
+const dryRunStorage = new AsyncLocalStorage<CapturedMutation[]>();
+const mutationLogStorage = new AsyncLocalStorage<ExecutedMutation[]>();
+const mutationHookStorage = new AsyncLocalStorage<MutationHook>();
+
+/** Called before the client sends a mutation; may read the store first */
+export type MutationHook = (mutation: CapturedMutation) => Promise<void>;
+
+export function runWithRequestStats<T>(fn: () => Promise<T>, tool?: string): Promise<{ result: T; stats: RequestStats }> {
+  const stats: RequestStats = { tool, requests: 0, retries: 0 };
+  return storage.run(stats, async () => ({ result: await fn(), stats }));
+}
+
+/**
+ * Stats of the tool call currently executing, if any
+ */
+export function currentRequestStats(): RequestStats | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Run `fn` with `store` as the target store profile
+ */
+export function runWithStore<T>(store: string, fn: () => Promise<T>): Promise<T> {
+  return storeStorage.run(store, fn);
+}
+
+/**
+ * Store profile selected for the tool call currently executing, if any
+ */
+export function currentStore(): string | undefined {
+  return storeStorage.getStore();
+}
+
+/**
+ * Run `fn` as a dry run: the client records mutations instead of sending them
+ */
+export async function runAsDryRun<T>(fn: () => Promise<T>): Promise<{ result: T; mutations: CapturedMutation[] }> {
+  const mutations: CapturedMutation[] = [];
+  return dryRunStorage.run(mutations, async () => ({ result: await fn(), mutations }));
+}
+
+/**
+ * Mutation log of the dry run currently executing, if any
+ */
+export function currentDryRun(): CapturedMutation[] | undefined {
+  return dryRunStorage.getStore();
+}
+
+/**
+ * Run `fn` and collect every mutation the client sends meanwhile
+ */
+export async function runWithMutationLog<T>(fn: () => Promise<T>): Promise<{ result: T; mutations: ExecutedMutation[] }> {
+  const parent = mutationLogStorage.getStore();
+  const mutations: ExecutedMutation[] = [];
+
+  try {
+    return await mutationLogStorage.run(mutations, async () => ({ result: await fn(), mutations }));
+  } finally {
+    // Nested logs (e.g. undo history inside the journal) report to the outer one too
+    parent?.push(...mutations);
+  }
+}
+
+/**
+ * Mutation log of the tool call currently executing, if any
+ */
+export function currentMutationLog(): ExecutedMutation[] | undefined {
+  return mutationLogStorage.getStore();
+}
+
+/**
+ * Run `fn` with `hook` called before every mutation the client sends
+ */
+export function runWithMutationHook<T>(hook: MutationHook, fn: () => Promise<T>): Promise<T> {
+  return mutationHookStorage.run(hook, fn);
+}
+
+export function currentMutationHook(): MutationHook | undefined {
+  return mutationHookStorage.getStore();
+}
+
+/**
+ * Run each tool call in its own stats context and report the request and
+ * retry counts in the result's `_meta`
+ */
+export const requestStatsMiddleware: ToolMiddleware = (tool) => ({
+  ...tool,
+  handler: async (...params) => {
+    const { result, stats } = await runWithRequestStats(async () => tool.handler(...params), tool.name);
+
+    if (stats.requests === 0) {
+      return result;
+    }
+
+    return {
+      ...result,
+      _meta: { ...result._meta, requests: stats.requests, retries: stats.retries },
+    };
+  },
+});
@@ -0,0 +1,77 @@
+import { GraphQLResponse } from "../types/index.js";
+
+/**
+ * Short-lived cache of query responses
+ *
+ * Off by default. With SHOPIFY_MCP_CACHE_TTL_SECONDS set, an identical query
+ * sent by a read tool within the TTL is answered from memory. Queries made
+ * during mutation tool calls (undo pre-images, dry-run previews) always go
+ * to the store, and every mutation the client sends clears the cache.
+ *
+ * Environment overrides:
+ *   SHOPIFY_MCP_CACHE_TTL_SECONDS=30     # Enable the cache (default: 0, off)
+ *   SHOPIFY_MCP_CACHE_MAX_ENTRIES=500    # Oldest responses are dropped beyond this
+ */
+
+export interface CacheSettings {
+  ttlMs: number;
+  maxEntries: number;
+}
+
+export function cacheSettingsFromEnv(): CacheSettings | undefined {
+  const ttlSeconds = Number(process.env.SHOPIFY_MCP_CACHE_TTL_SECONDS ?? 0);
+  if (!Number.isFinite(ttlSeconds) || ttlSeconds < 0) {
+    console.error(`[WARN] Ignoring invalid SHOPIFY_MCP_CACHE_TTL_SECONDS: ${process.env.SHOPIFY_MCP_CACHE_TTL_SECONDS}`);
+    return undefined;
+  }
+  if (ttlSeconds === 0) {
+    return undefined;
+  }
+
+  const maxEntries = Number(process.env.SHOPIFY_MCP_CACHE_MAX_ENTRIES ?? 500);
+  if (!Number.isInteger(maxEntries) || maxEntries <= 0) {
+    console.error(`[WARN] Ignoring invalid SHOPIFY_MCP_CACHE_MAX_ENTRIES: ${process.env.SHOPIFY_MCP_CACHE_MAX_ENTRIES}`);
+  }
+
+  return {
+    ttlMs: ttlSeconds * 1000,
+    maxEntries: Number.isInteger(maxEntries) && maxEntries > 0 ? maxEntries : 500,
+  };
+}
+
+export class ResponseCache {
+  private settings: CacheSettings;
+  private entries = new Map<string, { expires: number; response: GraphQLResponse<unknown> }>();
+
+  constructor(settings: CacheSettings) {
+    this.settings = settings;
+  }
+
+  static key(document: string, variables: Record<string, unknown> | undefined): string {
+    return JSON.stringify([document, variables ?? {}]);
+  }
+
+  get(key: string): GraphQLResponse<unknown> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expires <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.response;
+  }
+
+  set(key: string, response: GraphQLResponse<unknown>): void {
+    this.entries.delete(key);
+    this.entries.set(key, { expires: Date.now() + this.settings.ttlMs, response });
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.entries.size > this.settings.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,219 @@
+import { z } from "zod";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Compact rendering of query results
+ *
+ * GraphQL responses spend most of their size on structure: `edges`/`node`
+ * wrappers, cursors and null fields. Query tools return their data with
+ * every connection flattened to a plain list of nodes and nulls removed
+ * (top-level fields stay, so "not found" is still visible). List tools also
+ * accept a `fields` projection and an output `format`; the paging state of
+ * the listed connection is kept as `pageInfo`.
+ */
+
+export const RESPONSE_FORMATS = ["json", "compact", "markdown_table", "csv"] as const;
+export type ResponseFormat = (typeof RESPONSE_FORMATS)[number];
+
+export const responseFormatInputSchema = {
+  fields: z.array(z.string()).optional().describe(
+    "Only return these fields of each item, as dot paths into the flattened item (e.g., ['id', 'title', 'variants.sku'])"
+  ),
+  format: z.enum(RESPONSE_FORMATS).optional().describe(
+    "Output format: 'json' (default, indented), 'compact' (single-line JSON), 'markdown_table' or 'csv' (one row per item)"
+  ),
+};
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function connectionNodes(value: Json): unknown[] | undefined {
+  const keys = Object.keys(value);
+  if (!keys.every(key => key === "edges" || key === "nodes" || key === "pageInfo")) return undefined;
+  if (Array.isArray(value.nodes)) return value.nodes;
+  if (Array.isArray(value.edges) && value.edges.every(edge => isObject(edge) && "node" in edge)) {
+    return value.edges.map(edge => (edge as Json).node);
+  }
+  return undefined;
+}
+
+/**
+ * Replace every connection (`{ edges: [{ node }] }` or `{ nodes }`) with its list of nodes
+ */
+export function flattenConnections(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(flattenConnections);
+  if (!isObject(value)) return value;
+
+  const nodes = connectionNodes(value);
+  if (nodes) return nodes.map(flattenConnections);
+
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, flattenConnections(child)]));
+}
+
+/**
+ * Drop null and undefined fields at every level
+ */
+export function stripNulls(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripNulls);
+  if (!isObject(value)) return value;
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, child]) => child !== null && child !== undefined)
+      .map(([key, child]) => [key, stripNulls(child)])
+  );
+}
+
+function pick(value: unknown, [key, ...rest]: string[]): unknown {
+  if (Array.isArray(value)) return value.map(item => pick(item, [key, ...rest]));
+  if (!isObject(value) || !(key in value)) return undefined;
+  return { [key]: rest.length === 0 ? value[key] : pick(value[key], rest) };
+}
+
+function merge(target: unknown, source: unknown): unknown {
+  if (source === undefined) return target;
+  if (target === undefined) return source;
+  if (Array.isArray(target) && Array.isArray(source)) return target.map((item, i) => merge(item, source[i]));
+  if (isObject(target) && isObject(source)) {
+    const merged: Json = { ...target };
+    for (const [key, child] of Object.entries(source)) {
+      merged[key] = merge(merged[key], child);
+    }
+    return merged;
+  }
+  return source;
+}
+
+/**
+ * Keep only the given dot paths of `item`; paths through lists apply to every element
+ */
+export function projectFields(item: unknown, fields: string[]): unknown {
+  return fields.reduce<unknown>((projected, field) => merge(projected, pick(item, field.split("."))), {}) ?? {};
+}
+
+function getPath(value: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((current, key) => (isObject(current) ? current[key] : undefined), value);
+}
+
+function setPath(value: Json, path: string[], replacement: unknown): Json {
+  const [key, ...rest] = path;
+  return { ...value, [key]: rest.length === 0 ? replacement : setPath(isObject(value[key]) ? value[key] as Json : {}, rest, replacement) };
+}
+
+/**
+ * Flattened, null-free copy of a response's data
+ */
+export function compactData(data: unknown): unknown {
+  if (!isObject(data)) return data;
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, value === null ? null : stripNulls(flattenConnections(value))])
+  );
+}
+
+function cellValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) {
+    return value.every(item => !isObject(item) && !Array.isArray(item))
+      ? value.map(item => String(item ?? "")).join("; ")
+      : JSON.stringify(value);
+  }
+  return isObject(value) ? JSON.stringify(value) : String(value);
+}
+
+// The shared key of a list of single-field objects, e.g. the result of projecting variants.sku
+function singleKey(items: unknown[]): string | undefined {
+  const keys = new Set(items.map(item => (isObject(item) && Object.keys(item).length === 1 ? Object.keys(item)[0] : "")));
+  const [key] = keys;
+  return keys.size === 1 && key ? key : undefined;
+}
+
+function flattenRow(item: unknown, prefix = "", row: Record<string, string> = {}): Record<string, string> {
+  if (!isObject(item)) {
+    row[prefix || "value"] = cellValue(item);
+    return row;
+  }
+  for (const [key, value] of Object.entries(item)) {
+    const listKey = Array.isArray(value) && value.length > 0 ? singleKey(value) : undefined;
+    if (isObject(value)) {
+      flattenRow(value, `${prefix}${key}.`, row);
+    } else if (listKey) {
+      // "a; b" reads better than JSON
+      row[`${prefix}${key}.${listKey}`] = cellValue((value as Json[]).map(item => item[listKey]));
+    } else {
+      row[`${prefix}${key}`] = cellValue(value);
+    }
+  }
+  return row;
+}
+
+function tableOf(items: unknown[]): { columns: string[]; rows: Record<string, string>[] } {
+  const rows = items.map(item => flattenRow(item));
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  return { columns, rows };
+}
+
+function markdownTable(items: unknown[]): string {
+  const { columns, rows } = tableOf(items);
+  if (columns.length === 0) return "_No results_";
+  const escape = (text: string) => text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+  return [
+    `| ${columns.map(escape).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map(row => `| ${columns.map(column => escape(row[column] ?? "")).join(" | ")} |`),
+  ].join("\n");
+}
+
+function csv(items: unknown[]): string {
+  const { columns, rows } = tableOf(items);
+  const escape = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  return [columns, ...rows.map(row => columns.map(column => row[column] ?? ""))]
+    .map(cells => cells.map(escape).join(","))
+    .join("\n");
+}
+
+/**
+ * The data of a list query as list tools return it
+ *
+ * `path` leads from `data` to the listed connection. The data is compacted,
+ * `fields` is applied to each node, and the connection's `pageInfo` moves
+ * next to the data.
+ */
+export function shapeListData(data: unknown, path: string[], fields?: string[]): Json {
+  const connection = getPath(data, path);
+  const pageInfo = isObject(connection) ? connection.pageInfo : undefined;
+  const compact = compactData(data);
+
+  let items = getPath(compact, path);
+  if (!Array.isArray(items)) {
+    items = [];
+  }
+  if (fields?.length) {
+    items = (items as unknown[]).map(item => projectFields(item, fields));
+  }
+
+  return { ...setPath(compact as Json, path, items), ...(pageInfo ? { pageInfo } : {}) };
+}
+
+/**
+ * Render list data shaped by `shapeListData`
+ *
+ * JSON formats return the shaped data as is; table formats return one row
+ * per node, with paging state in a second text item.
+ */
+export function formatListResponse(shaped: Json, path: string[], format: ResponseFormat = "json"): CallToolResult["content"] {
+  if (format === "json" || format === "compact") {
+    return [{ type: "text", text: format === "json" ? JSON.stringify(shaped, null, 2) : JSON.stringify(shaped) }];
+  }
+
+  const items = getPath(shaped, path) as unknown[];
+  const table = format === "csv" ? csv(items) : markdownTable(items);
+  const { pageInfo, pagination } = shaped;
+  const paging = { ...(pageInfo ? { pageInfo } : {}), ...(pagination ? { pagination } : {}) };
+  return [
+    { type: "text", text: table },
+    ...(Object.keys(paging).length > 0 ? [{ type: "text" as const, text: JSON.stringify(paging) }] : []),
+  ];
+}
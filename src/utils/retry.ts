@@ -0,0 +1,92 @@
+import { GraphQLResponse } from "../types/index.js";
+
+/**
+ * Retry policy for ShopifyGraphQLClient
+ *
+ * Only transient failures are retried: network errors, HTTP 429/5xx and
+ * GraphQL `THROTTLED` errors. Validation errors, access-denied errors and
+ * `userErrors` are returned to the caller on the first attempt.
+ *
+ * Mutations are only retried when Shopify says it never ran them (HTTP 429
+ * or `THROTTLED`). After a network error, timeout or 5xx the mutation may
+ * already have been applied, and sending a refund or a store-credit debit
+ * twice is worse than reporting the failure.
+ *
+ * Environment overrides:
+ *   SHOPIFY_MAX_RETRIES=3              # Retries after the first attempt (0 disables)
+ *   SHOPIFY_RETRY_BASE_DELAY_MS=500    # Base delay for exponential backoff
+ *   SHOPIFY_RETRY_MAX_DELAY_MS=10000   # Upper bound for a single delay
+ */
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+function readNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === "") return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    console.error(`[WARN] Ignoring invalid ${name}: ${value}`);
+    return fallback;
+  }
+  return parsed;
+}
+
+export function retryPolicyFromEnv(): RetryPolicy {
+  return {
+    maxRetries: Math.floor(readNumber("SHOPIFY_MAX_RETRIES", DEFAULT_RETRY_POLICY.maxRetries)),
+    baseDelayMs: readNumber("SHOPIFY_RETRY_BASE_DELAY_MS", DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: readNumber("SHOPIFY_RETRY_MAX_DELAY_MS", DEFAULT_RETRY_POLICY.maxDelayMs),
+  };
+}
+
+export function isRetryableStatus(status: number, mutation = false): boolean {
+  return mutation ? status === 429 : RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * True when Shopify rejected the request because the cost bucket was empty
+ */
+export function isThrottled(response: GraphQLResponse<unknown>): boolean {
+  return Array.isArray(response.errors) &&
+    response.errors.some(error => error.extensions?.code === "THROTTLED");
+}
+
+/**
+ * Delay before retry number `attempt` (0-based)
+ *
+ * A Retry-After header (seconds or HTTP date) wins; otherwise exponential
+ * backoff with full jitter, capped at `maxDelayMs`.
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number, retryAfter?: string): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.min(policy.maxDelayMs, Math.max(0, seconds * 1000));
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.min(policy.maxDelayMs, Math.max(0, date - Date.now()));
+    }
+  }
+
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -1,114 +1,481 @@
 import { ToolDefinition } from "../types/index.js";
+import { ShopifyGraphQLClient } from "./graphql-client.js";
+import { currentStore } from "./request-context.js";
+import { ToolMiddleware } from "./tool-registry.js";
 
-// Tool definitions mapped from TOOLS.md scopes
-export const toolDefinitions: ToolDefinition[] = [
-  // Orders
-  { name: "get_orders", description: "Fetch orders from the Shopify store with optional filtering", scope: "read_all_orders", category: "orders" },
-  { name: "get_order", description: "Fetch a specific order by ID", scope: "read_all_orders", category: "orders" },
-  { name: "create_order", description: "Create a new order in the Shopify store", scope: "write_draft_orders", category: "orders" },
-  { name: "update_order", description: "Update an existing order", scope: "write_draft_orders", category: "orders" },
-  { name: "delete_order", description: "Delete an order from the store", scope: "write_draft_orders", category: "orders" },
-  
-  // Products
-  { name: "get_products", description: "Fetch products from the Shopify store with optional filtering", scope: "read_products", category: "products" },
-  { name: "get_product", description: "Fetch a specific product by ID", scope: "read_products", category: "products" },
-  { name: "create_product", description: "Create a new product in the Shopify store", scope: "write_products", category: "products" },
-  { name: "update_product", description: "Update an existing product", scope: "write_products", category: "products" },
-  { name: "delete_product", description: "Delete a product from the store", scope: "write_products", category: "products" },
-  
-  // Customers
-  { name: "get_customers", description: "Fetch customers from the Shopify store with optional filtering", scope: "read_customers", category: "customers" },
-  { name: "get_customer", description: "Fetch a specific customer by ID", scope: "read_customers", category: "customers" },
-  { name: "create_customer", description: "Create a new customer in the Shopify store", scope: "write_customers", category: "customers" },
-  { name: "update_customer", description: "Update an existing customer", scope: "write_customers", category: "customers" },
-  { name: "delete_customer", description: "Delete a customer from the store", scope: "write_customers", category: "customers" },
-  
-  // Collections
-  { name: "get_collections", description: "Fetch collections from the Shopify store", scope: "read_products", category: "collections" },
-  { name: "get_collection", description: "Fetch a specific collection by ID", scope: "read_products", category: "collections" },
-  { name: "create_collection", description: "Create a new collection", scope: "write_products", category: "collections" },
-  { name: "update_collection", description: "Update an existing collection", scope: "write_products", category: "collections" },
-  { name: "delete_collection", description: "Delete a collection", scope: "write_products", category: "collections" },
-  
-  // Inventory
-  { name: "get_inventory", description: "Fetch inventory levels for products", scope: "read_inventory", category: "inventory" },
-  { name: "update_inventory", description: "Update inventory levels", scope: "write_inventory", category: "inventory" },
-  { name: "get_inventory_items", description: "Fetch inventory items", scope: "read_inventory", category: "inventory" },
-  { name: "adjust_inventory", description: "Adjust inventory quantities", scope: "write_inventory", category: "inventory" },
-  
-  // Fulfillments
-  { name: "get_fulfillments", description: "Fetch fulfillments for orders", scope: "read_fulfillments", category: "fulfillments" },
-  { name: "create_fulfillment", description: "Create a fulfillment for an order", scope: "write_fulfillments", category: "fulfillments" },
-  { name: "update_fulfillment", description: "Update an existing fulfillment", scope: "write_fulfillments", category: "fulfillments" },
-  { name: "cancel_fulfillment", description: "Cancel a fulfillment", scope: "write_fulfillments", category: "fulfillments" },
-  
-  // Draft Orders
-  { name: "get_draft_orders", description: "Fetch draft orders from the store", scope: "read_draft_orders", category: "draft_orders" },
-  { name: "get_draft_order", description: "Fetch a specific draft order by ID", scope: "read_draft_orders", category: "draft_orders" },
-  { name: "create_draft_order", description: "Create a new draft order", scope: "write_draft_orders", category: "draft_orders" },
-  { name: "update_draft_order", description: "Update an existing draft order", scope: "write_draft_orders", category: "draft_orders" },
-  { name: "delete_draft_order", description: "Delete a draft order", scope: "write_draft_orders", category: "draft_orders" },
-  { name: "complete_draft_order", description: "Complete a draft order and convert to order", scope: "write_draft_orders", category: "draft_orders" },
-  
-  // Discounts
-  { name: "get_discounts", description: "Fetch discount codes from the store", scope: "read_discounts", category: "discounts" },
-  { name: "get_discount", description: "Fetch a specific discount by ID", scope: "read_discounts", category: "discounts" },
-  { name: "create_discount", description: "Create a new discount code", scope: "write_discounts", category: "discounts" },
-  { name: "update_discount", description: "Update an existing discount", scope: "write_discounts", category: "discounts" },
-  { name: "delete_discount", description: "Delete a discount code", scope: "write_discounts", category: "discounts" },
-  
-  // Gift Cards
-  { name: "get_gift_cards", description: "Fetch gift cards from the store", scope: "read_gift_cards", category: "gift_cards" },
-  { name: "get_gift_card", description: "Fetch a specific gift card by ID", scope: "read_gift_cards", category: "gift_cards" },
-  { name: "create_gift_card", description: "Create a new gift card", scope: "write_gift_cards", category: "gift_cards" },
-  { name: "update_gift_card", description: "Update an existing gift card", scope: "write_gift_cards", category: "gift_cards" },
-  { name: "disable_gift_card", description: "Disable a gift card", scope: "write_gift_cards", category: "gift_cards" },
-  
-  // Files
-  { name: "get_files", description: "Fetch files from the store", scope: "read_files", category: "files" },
-  { name: "upload_file", description: "Upload a file to the store", scope: "write_files", category: "files" },
-  { name: "delete_file", description: "Delete a file from the store", scope: "write_files", category: "files" },
-  
-  // Metaobjects
-  { name: "get_metaobject_definitions", description: "Fetch metaobject definitions", scope: "read_metaobject_definitions", category: "metaobjects" },
-  { name: "get_metaobjects", description: "Fetch metaobjects", scope: "read_metaobjects", category: "metaobjects" },
-  { name: "create_metaobject", description: "Create a new metaobject", scope: "write_metaobjects", category: "metaobjects" },
-  { name: "update_metaobject", description: "Update an existing metaobject", scope: "write_metaobjects", category: "metaobjects" },
-  { name: "delete_metaobject", description: "Delete a metaobject", scope: "write_metaobjects", category: "metaobjects" },
-  
-  // Channels
-  { name: "get_channels", description: "Fetch sales channels", scope: "read_channels", category: "channels" },
-  { name: "create_channel", description: "Create a sales channel", scope: "write_channels", category: "channels" },
-  { name: "update_channel", description: "Update a sales channel", scope: "write_channels", category: "channels" },
-  { name: "delete_channel", description: "Delete a sales channel", scope: "write_channels", category: "channels" },
-  
-  // Locations
-  { name: "get_locations", description: "Fetch store locations", scope: "read_locations", category: "locations" },
-  { name: "create_location", description: "Create a new location", scope: "write_locations", category: "locations" },
-  { name: "update_location", description: "Update an existing location", scope: "write_locations", category: "locations" },
-  { name: "delete_location", description: "Delete a location", scope: "write_locations", category: "locations" },
-  
-  // Marketing
-  { name: "get_marketing_events", description: "Fetch marketing events", scope: "read_marketing_events", category: "marketing" },
-  { name: "create_marketing_event", description: "Create a marketing event", scope: "write_marketing_events", category: "marketing" },
-  
-  // Analytics
-  { name: "get_analytics", description: "Fetch store analytics data", scope: "read_analytics", category: "analytics" },
-  { name: "shopifyql_query", description: "Execute a ShopifyQL query for analytics", scope: "read_analytics", category: "analytics" },
-  
-  // Shop Information
-  { name: "get_shop_info", description: "Fetch general shop information", scope: "read_analytics", category: "shop" },
-  { name: "get_shop_policies", description: "Fetch shop policies", scope: "read_legal_policies", category: "shop" },
+/**
+ * Access scopes required by every tool, grouped by the module that registers it
+ *
+ * `read` tools only query; `write` tools run mutations; `raw` tools run
+ * whatever document the caller sends. A tool listed with an
+ * empty scope list works with any token (or its scope depends on the input,
+ * as with bulk operations). Tools that need a different scope than the rest
+ * of their module get an entry of their own.
+ */
+interface ModuleScopes {
+  module: string;
+  readScopes: string[];
+  writeScopes: string[];
+  read?: string[];
+  write?: string[];
+  raw?: string[];
+}
+
+const MODULE_SCOPES: ModuleScopes[] = [
+  { module: "shop", readScopes: [], writeScopes: [], read: ["get_shop_info"] },
+  { module: "shop", readScopes: ["read_legal_policies"], writeScopes: [], read: ["get_shop_policies"] },
+  { module: "shop", readScopes: ["read_reports"], writeScopes: [], read: ["shopifyql_query"] },
+  {
+    module: "products", readScopes: ["read_products"], writeScopes: ["write_products"],
+    read: ["get_products", "get_product"], write: ["create_product", "update_product", "delete_product"],
+  },
+  {
+    module: "orders", readScopes: ["read_orders"], writeScopes: ["write_orders"],
+    read: ["get_orders", "get_order", "get_all_orders"], write: ["cancel_order"],
+  },
+  {
+    module: "customers", readScopes: ["read_customers"], writeScopes: ["write_customers"],
+    read: ["get_customers", "get_customer"], write: ["create_customer", "update_customer", "delete_customer"],
+  },
+  {
+    module: "collections", readScopes: ["read_products"], writeScopes: ["write_products"],
+    read: ["get_collections", "get_collection"],
+    write: ["create_collection", "add_products_to_collection", "update_collection", "delete_collection"],
+  },
+  {
+    module: "inventory", readScopes: ["read_inventory"], writeScopes: ["write_inventory"],
+    read: ["get_inventory"], write: ["adjust_inventory", "set_inventory"],
+  },
+  {
+    module: "locations", readScopes: ["read_locations"], writeScopes: ["write_locations"],
+    read: ["get_locations", "get_location"], write: ["create_location", "update_location"],
+  },
+  {
+    module: "draft-orders", readScopes: ["read_draft_orders"], writeScopes: ["write_draft_orders"],
+    read: ["get_draft_orders", "get_draft_order"], write: ["create_draft_order", "complete_draft_order", "delete_draft_order"],
+  },
+  {
+    module: "discounts", readScopes: ["read_discounts"], writeScopes: ["write_discounts"],
+    read: ["get_discounts", "get_discount_code", "get_discounts_allocator_functions"],
+    write: ["create_discount", "update_discount_code", "delete_discount", "create_discounts_allocator_function"],
+  },
+  {
+    module: "fulfillments", readScopes: ["read_assigned_fulfillment_orders"], writeScopes: ["write_assigned_fulfillment_orders"],
+    read: ["get_assigned_fulfillment_orders"], write: ["accept_fulfillment_request", "reject_fulfillment_request"],
+  },
+  {
+    module: "fulfillments", readScopes: ["read_merchant_managed_fulfillment_orders"], writeScopes: ["write_merchant_managed_fulfillment_orders"],
+    read: ["get_fulfillment_order"], write: ["create_fulfillment"],
+  },
+  { module: "fulfillments", readScopes: ["read_fulfillments"], writeScopes: [], read: ["get_fulfillment_services"] },
+  {
+    module: "gift-cards", readScopes: ["read_gift_cards"], writeScopes: ["write_gift_cards"],
+    read: ["get_gift_cards", "get_gift_card", "get_gift_card_transactions"],
+    write: ["create_gift_card", "update_gift_card", "disable_gift_card"],
+  },
+  {
+    module: "returns", readScopes: ["read_returns"], writeScopes: ["write_returns"],
+    read: ["get_returnable_fulfillments", "get_returns_by_order", "get_return"],
+    write: ["create_return", "approve_return_request", "decline_return_request", "close_return"],
+  },
+  {
+    module: "checkouts", readScopes: ["read_checkouts"], writeScopes: ["write_checkouts"],
+    read: ["get_checkouts", "get_checkout"], write: ["complete_checkout"],
+  },
+  {
+    module: "checkouts", readScopes: ["read_checkout_branding_settings"], writeScopes: ["write_checkout_branding_settings"],
+    read: ["get_checkout_branding_settings"], write: ["update_checkout_branding_settings"],
+  },
+  {
+    module: "payment-terms", readScopes: ["read_payment_terms"], writeScopes: ["write_payment_terms"],
+    read: ["get_payment_terms"], write: ["create_payment_terms", "update_payment_terms", "delete_payment_terms"],
+  },
+  { module: "payment-terms", readScopes: ["read_payment_mandate"], writeScopes: [], read: ["get_payment_mandates"] },
+  {
+    module: "payment-customizations", readScopes: ["read_payment_customizations"], writeScopes: ["write_payment_customizations"],
+    read: ["get_payment_customizations", "get_payment_customization"],
+    write: [
+      "create_payment_customization", "update_payment_customization", "delete_payment_customization",
+      "set_payment_customization_activation",
+    ],
+  },
+  {
+    module: "shopify-payments", readScopes: ["read_shopify_payments_payouts"], writeScopes: ["write_shopify_payments_payouts"],
+    read: [
+      "get_shopify_payments_account", "get_shopify_payments_balance_transactions", "get_shopify_payments_payouts",
+      "get_shopify_payments_bank_accounts",
+    ],
+    write: ["create_shopify_payments_alternate_currency_payout"],
+  },
+  { module: "shopify-payments", readScopes: ["read_shopify_payments_disputes"], writeScopes: [], read: ["get_shopify_payments_disputes"] },
+  {
+    module: "order-edits", readScopes: ["read_order_edits"], writeScopes: ["write_order_edits"],
+    read: ["get_order_edit"],
+    write: ["calculate_order_edit", "apply_order_edit", "add_line_items_to_order", "remove_line_items_from_order"],
+  },
+  {
+    module: "store-credit", readScopes: ["read_store_credit_accounts"], writeScopes: ["write_store_credit_account_transactions"],
+    read: ["get_store_credit_account", "get_store_credit_accounts_by_owner"],
+    write: ["credit_store_credit_account", "debit_store_credit_account"],
+  },
+  {
+    module: "subscriptions", readScopes: ["read_own_subscription_contracts"], writeScopes: ["write_own_subscription_contracts"],
+    read: ["get_subscription_contracts", "get_subscription_contract"],
+    write: [
+      "create_subscription_contract", "create_subscription_contract_atomic", "cancel_subscription_contract",
+      "pause_subscription_contract", "activate_subscription_contract", "set_subscription_contract_next_billing_date",
+      "expire_subscription_contract", "fail_subscription_contract", "update_subscription_contract_product",
+    ],
+  },
+  {
+    module: "companies", readScopes: ["read_customers"], writeScopes: ["write_customers"],
+    read: ["get_companies", "get_company"], write: ["create_company", "update_company", "create_company_location"],
+  },
+  {
+    module: "cash-tracking", readScopes: ["read_cash_tracking"], writeScopes: ["write_cash_tracking"],
+    read: ["get_cash_tracking_sessions", "get_cash_tracking_session"],
+    write: ["create_cash_tracking_session", "close_cash_tracking_session", "add_cash_transaction"],
+  },
+  {
+    module: "fulfillment-constraints", readScopes: ["read_fulfillment_constraint_rules"], writeScopes: ["write_fulfillment_constraint_rules"],
+    read: ["get_fulfillment_constraint_rules"],
+    write: ["create_fulfillment_constraint_rule", "update_fulfillment_constraint_rule", "delete_fulfillment_constraint_rule"],
+  },
+  {
+    module: "delivery-customizations", readScopes: ["read_delivery_customizations"], writeScopes: ["write_delivery_customizations"],
+    read: ["get_delivery_customizations"],
+    write: ["create_delivery_customization", "update_delivery_customization", "delete_delivery_customization"],
+  },
+  {
+    module: "delivery-option-generators", readScopes: ["read_delivery_customizations"], writeScopes: ["write_delivery_customizations"],
+    read: ["get_delivery_option_generators"],
+    write: ["create_delivery_option_generator", "update_delivery_option_generator", "delete_delivery_option_generator"],
+  },
+  {
+    module: "custom-fulfillment-services", readScopes: ["read_fulfillments"], writeScopes: ["write_fulfillments"],
+    read: ["get_custom_fulfillment_services"],
+    write: ["create_custom_fulfillment_service", "update_custom_fulfillment_service", "delete_custom_fulfillment_service"],
+  },
+  {
+    module: "marketing-campaigns", readScopes: ["read_marketing_events"], writeScopes: ["write_marketing_events"],
+    read: ["get_marketing_events", "get_marketing_event", "get_marketing_integrated_campaigns"],
+    write: ["create_marketing_event", "update_marketing_event", "delete_marketing_event"],
+  },
+  {
+    module: "markets", readScopes: ["read_markets"], writeScopes: ["write_markets"],
+    read: ["get_markets", "get_market"], write: ["create_market", "update_market", "delete_market"],
+  },
+  { module: "markets", readScopes: ["read_markets_home"], writeScopes: [], read: ["get_markets_home"] },
+  {
+    module: "channels", readScopes: ["read_publications"], writeScopes: ["write_publications"],
+    read: ["get_channels", "get_channel"], write: ["create_channel", "update_channel", "delete_channel"],
+  },
+  {
+    module: "discovery", readScopes: ["read_products"], writeScopes: [],
+    read: ["search_products", "get_product_recommendations", "predictive_search"],
+  },
+  {
+    module: "price-rules", readScopes: ["read_price_rules"], writeScopes: ["write_price_rules"],
+    read: ["get_price_rules", "get_price_rule"], write: ["create_price_rule", "update_price_rule", "delete_price_rule"],
+  },
+  { module: "analytics", readScopes: ["read_reports"], writeScopes: [], read: ["get_analytics_report", "run_shopifyql_query"] },
+  {
+    module: "pixels", readScopes: ["read_pixels"], writeScopes: ["write_pixels"],
+    read: ["get_pixels", "get_pixel"], write: ["create_pixel", "update_pixel", "delete_pixel"],
+  },
+  {
+    module: "publications", readScopes: ["read_publications"], writeScopes: [],
+    read: ["get_publications", "get_publication", "get_publication_products", "get_publication_collections"],
+  },
+  {
+    module: "pages", readScopes: ["read_online_store_pages"], writeScopes: ["write_online_store_pages"],
+    read: ["get_pages", "get_page"], write: ["create_page", "update_page", "delete_page"],
+  },
+  {
+    module: "navigation", readScopes: ["read_online_store_navigation"], writeScopes: ["write_online_store_navigation"],
+    read: ["get_menus", "get_menu", "get_menu_item"],
+    write: ["update_menu_item_children", "create_menu", "update_menu", "delete_menu"],
+  },
+  {
+    module: "themes", readScopes: ["read_themes"], writeScopes: ["write_themes"],
+    read: ["get_themes", "get_theme", "get_theme_files", "get_theme_file"],
+    write: ["create_theme", "update_theme", "publish_theme", "delete_theme", "upsert_theme_file"],
+  },
+  {
+    module: "files", readScopes: ["read_files"], writeScopes: ["write_files"],
+    read: ["get_files", "get_file"], write: ["create_staged_upload", "create_file", "update_file", "delete_file"],
+  },
+  { module: "metaobjects", readScopes: ["read_metaobject_definitions"], writeScopes: [], read: ["get_metaobject_definitions"] },
+  {
+    module: "metaobjects", readScopes: ["read_metaobjects"], writeScopes: ["write_metaobjects"],
+    read: ["get_metaobjects"], write: ["create_metaobject", "update_metaobject", "delete_metaobject"],
+  },
+  {
+    module: "translations", readScopes: ["read_translations"], writeScopes: ["write_translations"],
+    read: ["get_translatable_resources", "get_translations_for_resource"], write: ["register_translation", "remove_translations"],
+  },
+  {
+    module: "locales", readScopes: ["read_locales"], writeScopes: ["write_locales"],
+    read: ["get_locales"], write: ["publish_locale", "unpublish_locale"],
+  },
+  { module: "locales", readScopes: ["read_translations"], writeScopes: [], read: ["get_translations"] },
+  {
+    module: "legal-policies", readScopes: ["read_legal_policies"], writeScopes: ["write_legal_policies"],
+    read: ["get_legal_policies", "get_legal_policy"], write: ["update_legal_policy"],
+  },
+  {
+    module: "cart-transforms", readScopes: ["read_cart_transforms"], writeScopes: ["write_cart_transforms"],
+    read: ["get_cart_transforms", "get_all_cart_transforms"],
+    write: ["create_cart_transform", "update_cart_transform", "delete_cart_transform"],
+  },
+  {
+    module: "validations", readScopes: ["read_validations"], writeScopes: ["write_validations"],
+    read: ["get_validations"], write: ["create_validation", "update_validation", "delete_validation"],
+  },
+  { module: "audit-events", readScopes: [], writeScopes: [], read: ["get_audit_events"] },
+  { module: "audit-events", readScopes: ["read_customer_events"], writeScopes: [], read: ["get_customer_events"] },
+  {
+    module: "custom-pixels", readScopes: ["read_pixels"], writeScopes: ["write_pixels"],
+    read: ["get_custom_pixels", "get_custom_pixel"],
+    write: ["create_custom_pixel", "update_custom_pixel", "delete_custom_pixel", "toggle_custom_pixel"],
+  },
+  {
+    module: "script-tags", readScopes: ["read_script_tags"], writeScopes: ["write_script_tags"],
+    read: ["get_script_tags", "get_script_tag"], write: ["create_script_tag", "update_script_tag", "delete_script_tag"],
+  },
+  {
+    module: "customer-data-erasure", readScopes: ["read_customers"], writeScopes: ["write_customers"],
+    read: ["get_customer_data_erasure_requests"], write: ["request_customer_data_erasure"],
+  },
+  {
+    module: "customer-merge", readScopes: ["read_customer_merge"], writeScopes: ["write_customer_merge"],
+    read: ["get_customer_merge_requests"], write: ["request_customer_merge"],
+  },
+  {
+    module: "customer-payment-methods", readScopes: ["read_customer_payment_methods"], writeScopes: ["write_customers"],
+    read: ["get_customer_payment_methods", "get_customer_payment_method"], write: ["revoke_customer_payment_method"],
+  },
+  {
+    module: "privacy-settings", readScopes: ["read_privacy_settings"], writeScopes: ["write_privacy_settings"],
+    read: ["get_privacy_settings", "get_visitor_privacy_consent"], write: ["update_privacy_settings"],
+  },
+  {
+    module: "shipping", readScopes: ["read_shipping"], writeScopes: [],
+    read: ["get_shipping_zones", "get_delivery_profiles", "get_delivery_carriers", "get_shipping_countries"],
+  },
+  {
+    module: "product-listings", readScopes: ["read_product_listings"], writeScopes: [],
+    read: ["get_product_listings", "get_product_listing", "get_collection_listings"],
+  },
+  { module: "reports", readScopes: ["read_reports"], writeScopes: ["read_reports"], read: ["get_reports", "get_report"], write: ["run_report"] },
+  {
+    module: "resource-feedbacks", readScopes: ["read_resource_feedbacks"], writeScopes: ["write_resource_feedbacks"],
+    read: ["get_resource_feedbacks"], write: ["create_resource_feedback"],
+  },
+  {
+    module: "apps", readScopes: [], writeScopes: [],
+    read: ["get_apps", "get_app", "get_app_proxy"], write: ["create_app_proxy", "update_app_proxy", "delete_app_proxy"],
+  },
+  {
+    module: "inventory-shipments", readScopes: ["read_inventory_shipments"], writeScopes: ["write_inventory_shipments"],
+    read: ["get_inventory_shipments", "get_inventory_shipment"], write: ["create_inventory_shipment"],
+  },
+  {
+    module: "inventory-shipments", readScopes: ["read_inventory_shipments_received_items"], writeScopes: ["write_inventory_shipments_received_items"],
+    read: ["get_inventory_shipments_received_items"], write: ["receive_inventory_shipment"],
+  },
+  {
+    module: "inventory-transfers", readScopes: ["read_inventory_transfers"], writeScopes: ["write_inventory_transfers"],
+    read: ["get_inventory_transfers", "get_inventory_transfer"], write: ["create_inventory_transfer", "receive_inventory_transfer"],
+  },
+  {
+    module: "packing-slip-templates", readScopes: ["read_packing_slip_templates"], writeScopes: ["write_packing_slip_templates"],
+    read: ["get_packing_slip_templates"],
+    write: ["create_packing_slip_template", "update_packing_slip_template", "delete_packing_slip_template"],
+  },
+  // Bulk operations need whatever the submitted document needs. Starting a
+  // bulk query is itself a mutation, so it counts as a write.
+  {
+    module: "bulk-operations", readScopes: [], writeScopes: [],
+    read: ["get_bulk_operation", "download_bulk_operation_result", "get_bulk_mutation_report"],
+    write: ["run_bulk_query", "cancel_bulk_operation", "run_bulk_mutation"],
+  },
+  // Raw documents need whatever they select; mutations are refused unless
+  // allowlisted
+  { module: "graphql", readScopes: [], writeScopes: [], raw: ["execute_graphql"] },
+  // Status of this server and its store profiles
+  { module: "server", readScopes: [], writeScopes: [], read: ["health_check", "list_stores"] },
+  // Local state kept by this server; undo_change writes through the original update mutation
+  { module: "activity-log", readScopes: [], writeScopes: [], read: ["get_mcp_activity_log"] },
+  { module: "api-deprecations", readScopes: [], writeScopes: [], read: ["get_api_deprecations"] },
+  { module: "tool-discovery", readScopes: [], writeScopes: [], read: ["list_tool_categories", "search_tools", "enable_tool_category"] },
+  { module: "change-history", readScopes: [], writeScopes: [], read: ["list_recent_changes"], write: ["undo_change"] },
+  // Staging and reviewing only touch local files; applying runs the staged mutation tools
+  {
+    module: "change-sets", readScopes: [], writeScopes: [],
+    read: ["create_change_set", "add_change_set_step", "remove_change_set_step", "list_change_sets", "review_change_set", "delete_change_set"],
+    write: ["apply_change_set"],
+  },
 ];
 
-export function getToolsByCategory(category: string): ToolDefinition[] {
-  return toolDefinitions.filter(tool => tool.category === category);
+export const toolDefinitions: ToolDefinition[] = MODULE_SCOPES.flatMap(({ module, readScopes, writeScopes, read = [], write = [], raw = [] }) => [
+  ...read.map(name => ({ name, module, access: "read" as const, scopes: readScopes })),
+  ...write.map(name => ({ name, module, access: "write" as const, scopes: writeScopes })),
+  ...raw.map(name => ({ name, module, access: "raw" as const, scopes: [] })),
+]);
+
+const definitionsByName = new Map(toolDefinitions.map(tool => [tool.name, tool]));
+
+export function getToolDefinition(name: string): ToolDefinition | undefined {
+  return definitionsByName.get(name);
+}
+
+export function getToolsByModule(module: string): ToolDefinition[] {
+  return toolDefinitions.filter(tool => tool.module === module);
 }
 
 export function getToolsByScope(scope: string): ToolDefinition[] {
-  return toolDefinitions.filter(tool => tool.scope === scope);
+  return toolDefinitions.filter(tool => tool.scopes.includes(scope));
 }
 
 export function getAllToolNames(): string[] {
   return toolDefinitions.map(tool => tool.name);
 }
+
+/**
+ * Whether `granted` covers `scope`; a write_ scope implies its read_ scope
+ */
+export function hasScope(granted: Set<string>, scope: string): boolean {
+  return granted.has(scope) || (scope.startsWith("read_") && granted.has(`write_${scope.slice("read_".length)}`));
+}
+
+export function missingScopes(tool: ToolDefinition, granted: Set<string>): string[] {
+  return tool.scopes.filter(scope => !hasScope(granted, scope));
+}
+
+/**
+ * Scopes granted to the app installation behind `client`'s access token
+ */
+export async function fetchGrantedScopes(client: ShopifyGraphQLClient): Promise<Set<string>> {
+  const result = await client.execute<{ currentAppInstallation: { accessScopes: Array<{ handle: string }> } }>(
+    `query GetAccessScopes { currentAppInstallation { accessScopes { handle } } }`
+  );
+
+  if (result.errors) {
+    throw new Error(`GraphQL Errors: ${JSON.stringify(result.errors)}`);
+  }
+
+  return new Set(result.data?.currentAppInstallation.accessScopes.map(scope => scope.handle) ?? []);
+}
+
+export type ScopeMode = "skip" | "annotate" | "off";
+
+/**
+ * SHOPIFY_MCP_SCOPE_MODE: what to do with tools the token can't use
+ *   skip     - don't register them (default)
+ *   annotate - register them with a note about the missing scopes
+ *   off      - don't check scopes at all
+ */
+export function scopeModeFromEnv(): ScopeMode {
+  const value = process.env.SHOPIFY_MCP_SCOPE_MODE?.trim().toLowerCase();
+  if (value === "annotate" || value === "off") return value;
+  if (value && value !== "skip") {
+    console.error(`[WARN] Unknown SHOPIFY_MCP_SCOPE_MODE '${value}', using 'skip'`);
+  }
+  return "skip";
+}
+
+/**
+ * Skip or annotate tools whose required scopes aren't in `granted`
+ */
+export function scopeFilterMiddleware(granted: Set<string>, mode: Exclude<ScopeMode, "off">): ToolMiddleware {
+  return (tool) => {
+    const definition = getToolDefinition(tool.name);
+    const missing = definition ? missingScopes(definition, granted) : [];
+    if (missing.length === 0) return tool;
+
+    if (mode === "skip") return null;
+
+    return {
+      ...tool,
+      config: {
+        ...tool.config,
+        description: `[Missing access scope: ${missing.join(", ")}] ${tool.config.description ?? ""}`.trim(),
+        _meta: { ...tool.config._meta, missingScopes: missing },
+      },
+    };
+  };
+}
+
+/**
+ * Scopes granted to at least one store, so a tool is registered when any
+ * store can run it; undefined when some store's scopes couldn't be read
+ */
+export function combinedScopes(accessScopes: Map<string, { granted?: Set<string> }>): Set<string> | undefined {
+  const combined = new Set<string>();
+  for (const { granted } of accessScopes.values()) {
+    if (!granted) return undefined;
+    granted.forEach(scope => combined.add(scope));
+  }
+  return accessScopes.size > 0 ? combined : undefined;
+}
+
+/**
+ * Refuse calls to a store whose token lacks the tool's scopes
+ *
+ * With several stores, registration only knows that some store can run the
+ * tool (see combinedScopes); this checks the store the call targets. It must
+ * run inside storeSelectorMiddleware.
+ */
+export function storeScopeMiddleware(
+  accessScopes: Map<string, { granted?: Set<string> }>,
+  defaultStore: string
+): ToolMiddleware {
+  return (tool) => {
+    const definition = getToolDefinition(tool.name);
+    if (!definition || definition.scopes.length === 0) return tool;
+
+    return {
+      ...tool,
+      handler: async (...params: unknown[]) => {
+        const store = currentStore() ?? defaultStore;
+        const granted = accessScopes.get(store)?.granted;
+        const missing = granted ? missingScopes(definition, granted) : [];
+        if (missing.length > 0) {
+          return {
+            content: [{ type: "text", text: `Error: Store '${store}' is missing access scope ${missing.join(", ")} required by ${tool.name}` }],
+            isError: true,
+          };
+        }
+        return tool.handler(...params);
+      },
+    };
+  };
+}
+
+/**
+ * Drop every write tool (read-only mode)
+ *
+ * Tools without a definition are kept; the client still refuses any
+ * mutation they might send, and raw tools refuse mutations themselves.
+ */
+export const readOnlyMiddleware: ToolMiddleware = (tool) =>
+  getToolDefinition(tool.name)?.access === "write" ? null : tool;
+
+/**
+ * Tools of the given modules that `granted` doesn't cover, grouped by missing scope
+ */
+export function scopeGap(granted: Set<string>, modules: Set<string>): Array<{ scope: string; tools: string[] }> {
+  const gap = new Map<string, string[]>();
+
+  for (const tool of toolDefinitions) {
+    if (!modules.has(tool.module)) continue;
+    for (const scope of missingScopes(tool, granted)) {
+      gap.set(scope, [...(gap.get(scope) ?? []), tool.name]);
+    }
+  }
+
+  return [...gap.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([scope, tools]) => ({ scope, tools }));
+}
@@ -0,0 +1,107 @@
+import { QueryCost, ThrottleStatus } from "../types/index.js";
+
+/**
+ * Client-side model of Shopify's leaky-bucket rate limit
+ *
+ * Every Admin API response carries `extensions.cost.throttleStatus`. The
+ * throttler remembers the last reported bucket, refills it at `restoreRate`
+ * points per second and holds requests back (in FIFO order) until the bucket
+ * is expected to cover their cost, so long-running tools slow down instead of
+ * getting THROTTLED mid-run.
+ */
+
+export interface ThrottleBudget extends ThrottleStatus {
+  /** Points charged for the most recent request */
+  lastQueryCost?: number;
+  /** When Shopify last reported the bucket (ISO timestamp) */
+  updatedAt: string;
+}
+
+export interface CostThrottlerOptions {
+  /** Cost assumed for a query that has not been seen yet (default: 50) */
+  defaultQueryCost?: number;
+}
+
+const MAX_TRACKED_QUERIES = 500;
+
+export class CostThrottler {
+  private status?: ThrottleStatus;
+  private updatedAt = 0;
+  private lastQueryCost?: number;
+  private costByQuery = new Map<string, number>();
+  private queue: Promise<void> = Promise.resolve();
+  private defaultQueryCost: number;
+
+  constructor(options: CostThrottlerOptions = {}) {
+    this.defaultQueryCost = options.defaultQueryCost ?? 50;
+  }
+
+  /**
+   * Wait until the bucket is expected to hold enough points for `query`
+   */
+  acquire(query: string): Promise<void> {
+    const cost = this.costByQuery.get(query) ?? this.defaultQueryCost;
+    const turn = this.queue.then(() => this.waitFor(cost));
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Update the bucket from a response's `extensions.cost` block
+   */
+  record(query: string, cost?: QueryCost): void {
+    if (!cost?.throttleStatus) return;
+
+    if (this.costByQuery.size >= MAX_TRACKED_QUERIES) {
+      this.costByQuery.clear();
+    }
+    this.costByQuery.set(query, cost.requestedQueryCost);
+    this.lastQueryCost = cost.actualQueryCost ?? cost.requestedQueryCost;
+    this.status = { ...cost.throttleStatus };
+    this.updatedAt = Date.now();
+  }
+
+  /**
+   * Last known budget, with points restored since the last response included
+   */
+  getBudget(): ThrottleBudget | undefined {
+    if (!this.status) return undefined;
+
+    return {
+      ...this.status,
+      currentlyAvailable: Math.max(0, Math.floor(this.available())),
+      lastQueryCost: this.lastQueryCost,
+      updatedAt: new Date(this.updatedAt).toISOString(),
+    };
+  }
+
+  private available(): number {
+    if (!this.status) return Infinity;
+
+    const elapsedSeconds = (Date.now() - this.updatedAt) / 1000;
+    return Math.min(
+      this.status.maximumAvailable,
+      this.status.currentlyAvailable + elapsedSeconds * this.status.restoreRate
+    );
+  }
+
+  private async waitFor(cost: number): Promise<void> {
+    if (!this.status) return;
+
+    const needed = Math.min(cost, this.status.maximumAvailable);
+    const available = this.available();
+
+    if (available < needed && this.status.restoreRate > 0) {
+      const waitMs = Math.ceil(((needed - available) / this.status.restoreRate) * 1000);
+      console.error(`[INFO] Shopify query budget low (${Math.floor(available)}/${this.status.maximumAvailable}), waiting ${waitMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+
+    // Reserve the estimated cost so queued requests don't all see the same budget
+    this.status = {
+      ...this.status,
+      currentlyAvailable: Math.max(0, this.available() - cost),
+    };
+    this.updatedAt = Date.now();
+  }
+}
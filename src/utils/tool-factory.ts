@@ -0,0 +1,197 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodRawShape, ZodTypeAny } from "zod";
+import { GraphQLResponse } from "../types/index.js";
+import { ShopifyGraphQLClient } from "./graphql-client.js";
+import { executePaginated, paginationInputSchema, paginationSummarySchema } from "./pagination.js";
+import { collectUserErrors } from "./bulk-operations.js";
+import { getToolDefinition } from "./scope-mapper.js";
+import { compactData, formatListResponse, ResponseFormat, responseFormatInputSchema, shapeListData } from "./response-format.js";
+
+/**
+ * Declarative tool definitions
+ *
+ * Most tools are one GraphQL document plus a mapping from arguments to
+ * variables. `defineQueryTool` and `defineMutationTool` register such a tool
+ * with the shared response handling:
+ *
+ * - mutation results are returned as pretty-printed JSON; query results with
+ *   connections flattened and nulls removed, and list tools take `fields`
+ *   and `format` arguments (see response-format.ts)
+ * - GraphQL errors, thrown errors and (for mutations) non-empty `userErrors`
+ *   come back as `isError` results
+ * - the tool carries its read/write access and required scopes from the
+ *   scope map in `_meta`, plus a matching `readOnlyHint`
+ * - with an `outputSchema`, the same shaped data is also returned as
+ *   `structuredContent`
+ *
+ * Tools that need more than one request or reshape the response still use
+ * `server.registerTool` directly.
+ */
+
+type ToolArgs<Shape extends ZodRawShape> = z.objectOutputType<Shape, ZodTypeAny>;
+
+export interface ToolSpec<Shape extends ZodRawShape> {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema?: Shape;
+  annotations?: ToolAnnotations;
+  /** Shape of the response `data` (see output-schemas.ts) */
+  outputSchema?: ZodRawShape;
+  /** The GraphQL document sent on every call */
+  document: string;
+  /** GraphQL variables for a call; the document is sent without variables when omitted */
+  variables?: (args: ToolArgs<Shape>) => Record<string, unknown> | Promise<Record<string, unknown>>;
+}
+
+export interface QueryToolSpec<Shape extends ZodRawShape> extends ToolSpec<Shape> {
+  /**
+   * Path from `data` to the connection the tool lists. Adds the `fetchAll`
+   * and `maxItems` arguments (see executePaginated) and the `fields` and
+   * `format` arguments.
+   */
+  paginate?: string[];
+}
+
+export function textResult(text: string, isError = false): CallToolResult {
+  return {
+    content: [{ type: "text", text }],
+    ...(isError ? { isError } : {}),
+  };
+}
+
+export function jsonResult(body: unknown, isError = false): CallToolResult {
+  return textResult(JSON.stringify(body, null, 2), isError);
+}
+
+export function errorResult(error: unknown): CallToolResult {
+  return textResult(`Error: ${error instanceof Error ? error.message : String(error)}`, true);
+}
+
+/**
+ * Turn a GraphQL response into a tool result
+ */
+export function responseResult(
+  result: GraphQLResponse<unknown>,
+  options: {
+    checkUserErrors: boolean;
+    structured: boolean;
+    /** Shapes the data returned as content and structuredContent; unchanged by default */
+    shape?: (data: unknown) => unknown;
+    /** Renders the shaped data as content; pretty-printed JSON by default */
+    render?: (data: unknown) => CallToolResult["content"];
+  }
+): CallToolResult {
+  if (result.errors) {
+    return textResult(`GraphQL Errors: ${JSON.stringify(result.errors, null, 2)}`, true);
+  }
+
+  if (options.checkUserErrors && collectUserErrors(result.data).length > 0) {
+    return textResult(JSON.stringify(result.data, null, 2), true);
+  }
+
+  const data = options.shape ? options.shape(result.data) : result.data;
+  const content = options.render
+    ? options.render(data)
+    : textResult(JSON.stringify(data, null, 2)).content;
+  return options.structured && data && typeof data === "object"
+    ? { content, structuredContent: data as Record<string, unknown> }
+    : { content };
+}
+
+function defineTool<Shape extends ZodRawShape>(
+  server: McpServer,
+  access: "read" | "write",
+  spec: ToolSpec<Shape>,
+  execute: (variables: Record<string, unknown>, args: Record<string, unknown>) => Promise<GraphQLResponse<unknown>>,
+  output: {
+    shape?: (data: unknown, args: Record<string, unknown>) => unknown;
+    render?: (data: unknown, args: Record<string, unknown>) => CallToolResult["content"];
+  } = {}
+): void {
+  const definition = getToolDefinition(spec.name);
+  if (definition && definition.access !== access) {
+    console.error(`[WARN] Tool '${spec.name}' is defined as ${access} but mapped as ${definition.access} in the scope map`);
+  }
+
+  const run = async (args: Record<string, unknown>): Promise<CallToolResult> => {
+    try {
+      const variables = spec.variables ? await spec.variables(args as ToolArgs<Shape>) : {};
+      return responseResult(await execute(variables, args), {
+        checkUserErrors: access === "write",
+        structured: !!spec.outputSchema,
+        shape: output.shape && ((data) => output.shape!(data, args)),
+        render: output.render && ((data) => output.render!(data, args)),
+      });
+    } catch (error) {
+      return errorResult(error);
+    }
+  };
+
+  server.registerTool(
+    spec.name,
+    {
+      title: spec.title,
+      description: spec.description,
+      inputSchema: spec.inputSchema,
+      outputSchema: spec.outputSchema,
+      annotations: { readOnlyHint: access === "read", ...spec.annotations },
+      _meta: { access, scopes: definition?.scopes ?? [] },
+    },
+    // Tools without an input schema are called with just the request context
+    (spec.inputSchema ? (args: Record<string, unknown>) => run(args) : () => run({})) as never
+  );
+}
+
+/**
+ * Register a tool that runs one GraphQL query
+ */
+export function defineQueryTool<Shape extends ZodRawShape>(
+  server: McpServer,
+  client: ShopifyGraphQLClient,
+  spec: QueryToolSpec<Shape>
+): void {
+  const { paginate } = spec;
+  if (!paginate) {
+    defineTool(
+      server,
+      "read",
+      spec,
+      (variables) => client.execute(spec.document, variables),
+      { shape: compactData }
+    );
+    return;
+  }
+
+  defineTool(
+    server,
+    "read",
+    {
+      ...spec,
+      inputSchema: { ...spec.inputSchema, ...paginationInputSchema, ...responseFormatInputSchema } as unknown as Shape,
+      outputSchema: spec.outputSchema && { ...spec.outputSchema, pagination: paginationSummarySchema.optional() },
+    },
+    (variables, { fetchAll, maxItems }) =>
+      executePaginated(client, spec.document, variables, {
+        path: paginate,
+        fetchAll: fetchAll as boolean | undefined,
+        maxItems: maxItems as number | undefined,
+      }),
+    {
+      shape: (data, { fields }) => shapeListData(data, paginate, fields as string[] | undefined),
+      render: (data, { format }) => formatListResponse(data as Record<string, unknown>, paginate, format as ResponseFormat | undefined),
+    }
+  );
+}
+
+/**
+ * Register a tool that sends one GraphQL mutation
+ */
+export function defineMutationTool<Shape extends ZodRawShape>(
+  server: McpServer,
+  client: ShopifyGraphQLClient,
+  spec: ToolSpec<Shape>
+): void {
+  defineTool(server, "write", spec, (variables) => client.execute(spec.document, variables));
+}
@@ -0,0 +1,118 @@
+import { ALL_CATEGORIES } from "../config/tool-categories.js";
+import { getToolDefinition, toolDefinitions } from "./scope-mapper.js";
+import { ToolMiddleware } from "./tool-registry.js";
+
+/**
+ * Per-tool allow and deny lists
+ *
+ * Categories decide which modules are loaded; these lists refine that one
+ * tool at a time. Both take comma-separated glob patterns (`*` matches any
+ * run of characters, `?` a single one):
+ *
+ *   ENABLED_TOOL_CATEGORIES=essential
+ *   DISABLED_TOOLS=delete_*                        # essential minus every delete tool
+ *   ENABLED_TOOLS=get_shopify_payments_payouts     # plus one tool from commerce
+ *
+ * A tool is registered when its category is enabled or it matches
+ * ENABLED_TOOLS, and it doesn't match DISABLED_TOOLS. A tool named exactly
+ * in one list beats a pattern in the other (DISABLED_TOOLS=get_*,
+ * ENABLED_TOOLS=get_products keeps get_products); otherwise DISABLED_TOOLS
+ * wins. Tools outside the categories (health_check, change history, ...) are
+ * only affected by DISABLED_TOOLS.
+ */
+
+function patternsFromEnv(name: string): string[] {
+  return (process.env[name] ?? "").split(",").map(pattern => pattern.trim()).filter(Boolean);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map(char => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+const CATEGORY_MODULES = new Set(ALL_CATEGORIES.flatMap(category => category.modules));
+
+export class ToolFilter {
+  readonly enabled: string[];
+  readonly disabled: string[];
+  private enabledModules: Set<string>;
+  private enabledPatterns: RegExp[];
+  private disabledPatterns: RegExp[];
+
+  constructor(enabled: string[], disabled: string[], enabledModules: Set<string>) {
+    this.enabled = enabled;
+    this.disabled = disabled;
+    this.enabledModules = enabledModules;
+    this.enabledPatterns = enabled.map(globToRegExp);
+    this.disabledPatterns = disabled.map(globToRegExp);
+  }
+
+  static fromEnv(enabledModules: Set<string>): ToolFilter {
+    const filter = new ToolFilter(patternsFromEnv("ENABLED_TOOLS"), patternsFromEnv("DISABLED_TOOLS"), enabledModules);
+
+    const names = toolDefinitions.map(definition => definition.name);
+    for (const [variable, patterns] of [["ENABLED_TOOLS", filter.enabled], ["DISABLED_TOOLS", filter.disabled]] as const) {
+      for (const pattern of patterns) {
+        if (!names.some(name => globToRegExp(pattern).test(name))) {
+          console.error(`[WARN] ${variable} pattern '${pattern}' matches no tool`);
+        }
+      }
+    }
+    return filter;
+  }
+
+  /**
+   * A filter with the same lists, so one server can enable categories at
+   * runtime without affecting the others
+   */
+  copy(): ToolFilter {
+    return new ToolFilter(this.enabled, this.disabled, new Set(this.enabledModules));
+  }
+
+  /**
+   * Treat `modules` as part of an enabled category from now on
+   */
+  enableModules(modules: Iterable<string>): void {
+    for (const module of modules) {
+      this.enabledModules.add(module);
+    }
+  }
+
+  allows(name: string): boolean {
+    if (this.disabled.includes(name)) {
+      return false;
+    }
+    if (this.enabled.includes(name)) {
+      return true;
+    }
+    if (this.disabledPatterns.some(pattern => pattern.test(name))) {
+      return false;
+    }
+    const module = getToolDefinition(name)?.module;
+    return !module || !CATEGORY_MODULES.has(module) || this.enabledModules.has(module) || this.enabledPatterns.some(pattern => pattern.test(name));
+  }
+
+  /**
+   * Modules to load: those of the enabled categories plus the modules of
+   * tools enabled one by one
+   */
+  modules(): Set<string> {
+    const modules = new Set(this.enabledModules);
+    for (const definition of toolDefinitions) {
+      if (this.enabledPatterns.some(pattern => pattern.test(definition.name))) {
+        modules.add(definition.module);
+      }
+    }
+    return modules;
+  }
+}
+
+/**
+ * Drop every tool the filter doesn't allow
+ */
+export function toolFilterMiddleware(filter: ToolFilter): ToolMiddleware {
+  return (tool) => (filter.allows(tool.name) ? tool : null);
+}
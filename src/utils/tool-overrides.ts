@@ -0,0 +1,23 @@
+import { ToolMiddleware } from "./tool-registry.js";
+
+/**
+ * Per-tool settings from the config file's `tools` section
+ *
+ * `enabled` is folded into ENABLED_TOOLS/DISABLED_TOOLS (see tool-filter.ts),
+ * so only descriptions are left to apply here.
+ */
+export interface ToolOverrides {
+  [tool: string]: {
+    description?: string;
+  };
+}
+
+/**
+ * Replace overridden descriptions
+ */
+export function toolOverridesMiddleware(overrides: ToolOverrides): ToolMiddleware {
+  return (tool) => {
+    const description = overrides[tool.name]?.description;
+    return description ? { ...tool, config: { ...tool.config, description } } : tool;
+  };
+}
@@ -0,0 +1,60 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { CallToolResult, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { ZodRawShape } from "zod";
+
+/**
+ * Registration pipeline shared by every tool module
+ *
+ * Registrars keep calling `server.registerTool(...)` exactly as before, but
+ * the server they receive is a thin wrapper that passes each registration
+ * through a list of middleware first. A middleware can rewrite the tool's
+ * config, wrap its handler, or drop the tool by returning null.
+ */
+
+export interface ToolConfig {
+  title?: string;
+  description?: string;
+  inputSchema?: ZodRawShape;
+  outputSchema?: ZodRawShape;
+  annotations?: ToolAnnotations;
+  _meta?: Record<string, unknown>;
+}
+
+// Handlers receive (args, extra) or just (extra) when the tool has no input schema
+export type ToolHandler = (...params: any[]) => CallToolResult | Promise<CallToolResult>;
+
+export interface ToolRegistration {
+  name: string;
+  config: ToolConfig;
+  handler: ToolHandler;
+}
+
+export type ToolMiddleware = (tool: ToolRegistration) => ToolRegistration | null;
+
+/**
+ * Wrap `server` so every registerTool call runs through `middleware` in order
+ *
+ * When `registered` is given, each tool is also recorded there as it was
+ * finally registered, so tools can invoke other tools (see change sets).
+ */
+export function createToolRegistry(
+  server: McpServer,
+  middleware: ToolMiddleware[],
+  registered?: Map<string, ToolRegistration>
+): McpServer {
+  const registry = Object.create(server) as McpServer;
+
+  registry.registerTool = ((name: string, config: ToolConfig, handler: ToolHandler) => {
+    let tool: ToolRegistration | null = { name, config, handler };
+
+    for (const apply of middleware) {
+      tool = apply(tool);
+      if (!tool) return undefined;
+    }
+
+    registered?.set(tool.name, tool);
+    return server.registerTool(tool.name, tool.config, tool.handler);
+  }) as McpServer["registerTool"];
+
+  return registry;
+}
@@ -0,0 +1,153 @@
+/**
+ * HTTP transports used by ShopifyGraphQLClient
+ *
+ * The client never talks to the network directly. It hands a fully built
+ * request to a GraphQLTransport, which makes it possible to swap the default
+ * fetch-based transport for an in-memory one in tests, or to point the fetch
+ * transport at a local stand-in for the Shopify Admin API.
+ */
+
+export interface TransportRequest {
+  url: string;
+  method: "GET" | "POST";
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface TransportResponse {
+  status: number;
+  /** Response headers, keyed by lower-case header name */
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface StreamingTransportResponse {
+  status: number;
+  /** Response headers, keyed by lower-case header name */
+  headers: Record<string, string>;
+  /** Decoded body, delivered in chunks as it arrives */
+  body: AsyncIterable<string>;
+}
+
+export interface GraphQLTransport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+  /** Like send, but hands the body over incrementally (used for large downloads) */
+  stream(request: TransportRequest): Promise<StreamingTransportResponse>;
+}
+
+function collectHeaders(response: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key.toLowerCase()] = value;
+  });
+  return headers;
+}
+
+/**
+ * Default transport built on the native fetch API (Node 18+)
+ */
+export class FetchTransport implements GraphQLTransport {
+  private timeoutMs: number;
+  private streamTimeoutMs: number;
+
+  constructor(options: { timeoutMs?: number; streamTimeoutMs?: number } = {}) {
+    this.timeoutMs = options.timeoutMs ?? 60000;
+    this.streamTimeoutMs = options.streamTimeoutMs ?? 30 * 60000;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    return {
+      status: response.status,
+      headers: collectHeaders(response),
+      body: await response.text(),
+    };
+  }
+
+  async stream(request: TransportRequest): Promise<StreamingTransportResponse> {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: AbortSignal.timeout(this.streamTimeoutMs),
+    });
+
+    const reader = response.body?.getReader();
+
+    async function* chunks(): AsyncIterable<string> {
+      if (!reader) return;
+      const decoder = new TextDecoder();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        yield decoder.decode(value, { stream: true });
+      }
+      const rest = decoder.decode();
+      if (rest) yield rest;
+    }
+
+    return {
+      status: response.status,
+      headers: collectHeaders(response),
+      body: chunks(),
+    };
+  }
+}
+
+export type MockTransportHandler = (request: TransportRequest) => TransportResponse | Promise<TransportResponse>;
+
+/**
+ * In-memory transport for tests
+ *
+ * Every request is recorded in `requests` and answered by the handler, so a
+ * tool module can be exercised without a store:
+ *
+ *   const transport = new MockTransport(() => MockTransport.json({ data: { shop: { name: "Test" } } }));
+ *   const client = new ShopifyGraphQLClient({ config, transport });
+ */
+export class MockTransport implements GraphQLTransport {
+  readonly requests: TransportRequest[] = [];
+  private handler: MockTransportHandler;
+
+  constructor(handler: MockTransportHandler) {
+    this.handler = handler;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+    return this.handler(request);
+  }
+
+  async stream(request: TransportRequest): Promise<StreamingTransportResponse> {
+    const response = await this.send(request);
+
+    async function* chunks(): AsyncIterable<string> {
+      for (let i = 0; i < response.body.length; i += 65536) {
+        yield response.body.slice(i, i + 65536);
+      }
+    }
+
+    return { status: response.status, headers: response.headers, body: chunks() };
+  }
+
+  /**
+   * Parsed GraphQL payload of a recorded request
+   */
+  static payload(request: TransportRequest): { query: string; variables: Record<string, unknown> } {
+    return JSON.parse(request.body ?? "{}");
+  }
+
+  static json(body: unknown, status = 200, headers: Record<string, string> = {}): TransportResponse {
+    return {
+      status,
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    };
+  }
+}
@@ -0,0 +1,189 @@
+import { readdirSync, readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import ts from "typescript";
+import { bundledApiVersions, loadAdminSchema, validateDocument } from "./utils/admin-schema.js";
+
+/**
+ * Offline check of the GraphQL documents embedded in the tool modules
+ *
+ *   npm run verify:documents                       # every bundled API version
+ *   npm run verify:documents -- --version 2026-01  # one version
+ *
+ * Every string in src/tools that holds an operation is validated against
+ * the bundled Admin API schema snapshots (see utils/admin-schema.ts):
+ * unknown fields, arguments and types, and unused or undefined variables.
+ * Exits with status 1 when any document fails, listing the tools it
+ * belongs to.
+ */
+
+const SOURCE_DIR = fileURLToPath(new URL("../src/", import.meta.url));
+
+const OPERATION = /^\s*(query|mutation|subscription)\b[^{]*\{/;
+
+interface EmbeddedDocument {
+  file: string;
+  line: number;
+  tool: string;
+  document: string;
+}
+
+function stringProperty(node: ts.ObjectLiteralExpression, name: string): string | undefined {
+  for (const property of node.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      ts.isIdentifier(property.name) &&
+      property.name.text === name &&
+      ts.isStringLiteral(property.initializer)
+    ) {
+      return property.initializer.text;
+    }
+  }
+  return undefined;
+}
+
+// The tool a document belongs to: the enclosing `registerTool("name", ...)`
+// call, or the `{ name: "..." }` spec passed to defineQueryTool/defineMutationTool
+function owningTool(node: ts.Node): string | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isObjectLiteralExpression(current)) {
+      const name = stringProperty(current, "name");
+      if (name && current.properties.some(property => property.name && ts.isIdentifier(property.name) && property.name.text === "description")) {
+        return name;
+      }
+    }
+    if (
+      ts.isCallExpression(current) &&
+      ts.isPropertyAccessExpression(current.expression) &&
+      current.expression.name.text === "registerTool" &&
+      current.arguments[0] &&
+      ts.isStringLiteral(current.arguments[0])
+    ) {
+      return current.arguments[0].text;
+    }
+  }
+  return undefined;
+}
+
+function parseSource(dir: string, file: string): ts.SourceFile {
+  return ts.createSourceFile(file, readFileSync(`${SOURCE_DIR}${dir}/${file}`, "utf8"), ts.ScriptTarget.Latest, true);
+}
+
+function sourceFiles(dir: string): string[] {
+  return readdirSync(`${SOURCE_DIR}${dir}`).filter(file => file.endsWith(".ts")).sort();
+}
+
+/**
+ * Top-level string constants (`const FIELDS = \`...\``) of the tool and
+ * util modules, for documents that splice in shared selections
+ */
+function stringConstants(): Map<string, string> {
+  const constants = new Map<string, string>();
+  for (const dir of ["tools", "utils"]) {
+    for (const file of sourceFiles(dir)) {
+      for (const statement of parseSource(dir, file).statements) {
+        if (!ts.isVariableStatement(statement) || !(statement.declarationList.flags & ts.NodeFlags.Const)) continue;
+        for (const declaration of statement.declarationList.declarations) {
+          const initializer = declaration.initializer;
+          if (ts.isIdentifier(declaration.name) && initializer && (ts.isNoSubstitutionTemplateLiteral(initializer) || ts.isStringLiteral(initializer))) {
+            constants.set(declaration.name.text, initializer.text);
+          }
+        }
+      }
+    }
+  }
+  return constants;
+}
+
+// The text of a template, or undefined when a substitution isn't a known constant
+function templateText(node: ts.TemplateExpression, constants: Map<string, string>): string | undefined {
+  let text = node.head.text;
+  for (const span of node.templateSpans) {
+    const value = ts.isIdentifier(span.expression) ? constants.get(span.expression.text) : undefined;
+    if (value === undefined) return undefined;
+    text += value + span.literal.text;
+  }
+  return text;
+}
+
+function extractDocuments(file: string, constants: Map<string, string>): { documents: EmbeddedDocument[]; dynamic: EmbeddedDocument[] } {
+  const source = parseSource("tools", file);
+  const documents: EmbeddedDocument[] = [];
+  const dynamic: EmbeddedDocument[] = [];
+
+  const visit = (node: ts.Node) => {
+    const head = ts.isNoSubstitutionTemplateLiteral(node) || ts.isStringLiteral(node)
+      ? node.text
+      : ts.isTemplateExpression(node) ? node.head.text : undefined;
+
+    if (head !== undefined && OPERATION.test(head)) {
+      const text = ts.isTemplateExpression(node) ? templateText(node, constants) : head;
+      const entry = {
+        file,
+        line: source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1,
+        tool: owningTool(node) ?? "(module)",
+        document: text ?? head,
+      };
+      (text === undefined ? dynamic : documents).push(entry);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return { documents, dynamic };
+}
+
+function requestedVersions(argv: string[]): string[] {
+  const bundled = bundledApiVersions();
+  const index = argv.indexOf("--version");
+  if (index === -1) return bundled;
+
+  const version = argv[index + 1];
+  if (!version || !bundled.includes(version)) {
+    throw new Error(`No schema snapshot for version '${version ?? ""}'. Bundled: ${bundled.join(", ")}`);
+  }
+  return [version];
+}
+
+function main() {
+  const versions = requestedVersions(process.argv.slice(2));
+  const files = sourceFiles("tools");
+  const constants = stringConstants();
+
+  const documents: EmbeddedDocument[] = [];
+  const dynamic: EmbeddedDocument[] = [];
+  for (const file of files) {
+    const extracted = extractDocuments(file, constants);
+    documents.push(...extracted.documents);
+    dynamic.push(...extracted.dynamic);
+  }
+
+  console.log(`${documents.length} documents in ${files.length} tool modules`);
+  for (const { file, line, tool } of dynamic) {
+    console.log(`  skipped ${file}:${line} (${tool}): built at runtime`);
+  }
+
+  let failed = 0;
+  for (const version of versions) {
+    const { schema } = loadAdminSchema(version);
+    const broken = documents
+      .map(entry => ({ ...entry, errors: validateDocument(schema, entry.document).errors }))
+      .filter(entry => entry.errors.length > 0);
+
+    const tools = new Set(broken.map(entry => entry.tool));
+    console.log(`\n${version}: ${broken.length === 0 ? "all documents valid" : `${broken.length} invalid documents in ${tools.size} tools`}`);
+    for (const { file, line, tool, errors } of broken) {
+      console.log(`  ${tool} (${file}:${line})`);
+      errors.forEach(error => console.log(`    - ${error}`));
+    }
+    failed += broken.length;
+  }
+
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}